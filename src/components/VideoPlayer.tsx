@@ -1,83 +1,439 @@
-import React, { useEffect, useRef, useState } from 'react';
-import Hls from 'hls.js';
-import { Volume2, Volume1, VolumeX, Play, Pause, Settings, Loader2, RotateCcw, RotateCw, Maximize2, Minimize2, ChevronRight, ArrowLeft } from 'lucide-react';
+import React, { useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { Volume2, Volume1, VolumeX, Play, Pause, Settings, Loader2, RotateCcw, RotateCw, Maximize2, Minimize2, ChevronRight, ArrowLeft, RefreshCw, Radio, Upload, Undo2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useLatencyCatchUp } from '@/hooks/use-latency-catch-up';
+import { useTextTracks } from '@/hooks/use-text-tracks';
+import { useExternalSubtitles } from '@/hooks/use-external-subtitles';
+import { toast } from '@/hooks/use-toast';
+import { useCaptionStyle } from '@/hooks/use-caption-style';
+import { usePlayerPreferences } from '@/hooks/use-player-preferences';
+import { usePlaybackTimeline } from '@/hooks/use-playback-timeline';
+import { usePlaybackAnalytics } from '@/hooks/use-playback-analytics';
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+import { useMediaEvents, type MediaEventCallbacks } from '@/hooks/use-media-events';
+import { useThumbnails } from '@/hooks/use-thumbnails';
+import { useChapters } from '@/hooks/use-chapters';
+import { useGeneratedThumbnails } from '@/hooks/use-generated-thumbnails';
+import CaptionStyleMenu from '@/components/player/CaptionStyleMenu';
+import StatsOverlay from '@/components/player/StatsOverlay';
+import DiagnosticsPanel from '@/components/player/DiagnosticsPanel';
+import ShortcutsOverlay from '@/components/player/ShortcutsOverlay';
+import ThumbnailPreview from '@/components/player/ThumbnailPreview';
+import { createBeaconSink, type AnalyticsSink } from '@/lib/player/analytics';
+import { playWithMutedFallback, type AutoplayResult } from '@/lib/player/autoplay';
+import { getCaptionTextStyle } from '@/lib/player/caption-style';
+import { findChapterIndex, normalizeChapters, type ChapterEntry } from '@/lib/player/chapters';
+import { hexToHslChannels } from '@/lib/player/color';
+import {
+  formatQualityCap,
+  getQualityDetails,
+  getQualityLabel,
+  isWithinCap,
+  prefersDataSaver,
+  resolveQualityCap,
+  sortQualities,
+} from '@/lib/player/quality';
+import { createEngine } from '@/lib/player/engine';
+import { matchesLanguage } from '@/lib/player/language';
+import { getDistanceFromBar, getScrubLevel, getScrubSecondsPerPixel, SCRUB_LEVELS, type ScrubLevel } from '@/lib/player/scrubbing';
+import { resolveKeyBindings, type KeyBindings } from '@/lib/player/shortcuts';
+import { findThumbnail } from '@/lib/player/thumbnails';
+import { getSourceLabel, resolveStreamType } from '@/lib/player/source';
+import type {
+  AudioTrackOption,
+  PlaybackEngine,
+  PlayerError,
+  PlayerSource,
+  PlayerState,
+  QualityLevel,
+  SubtitleSource,
+} from '@/lib/player/types';
 
-interface VideoPlayerProps {
-  url: string;
+export interface VideoPlayerHandle {
+  play: () => void;
+  pause: () => void;
+  /**
+   * Seconds from the start of the media, or within the DVR window for live streams; clamped to
+   * the timeline. Throws a RangeError for non-finite times.
+   */
+  seek: (time: number) => void;
+  /** -1 hands the choice back to adaptive bitrate */
+  setQuality: (level: number) => void;
+  /** Clamped to 0.25–4; throws a RangeError for non-finite or non-positive rates */
+  setRate: (rate: number) => void;
+  /** Clamped to 0–1; throws a RangeError for non-finite volumes */
+  setVolume: (volume: number) => void;
+  getState: () => PlayerState;
 }
 
-type SettingsMenuType = 'main' | 'playback' | 'quality';
+export interface VideoPlayerProps extends MediaEventCallbacks {
+  url?: string;
+  /** Ordered fallback list; later entries are tried when earlier ones fail or stall */
+  sources?: PlayerSource[];
+  /** Milliseconds of continuous buffering before switching to the next source */
+  stallTimeout?: number;
+  /** Low-Latency HLS/DASH: load partial segments and steer playback towards `targetLatency` */
+  lowLatency?: boolean;
+  /** Seconds behind the live edge to aim for in low-latency mode */
+  targetLatency?: number;
+  /** Largest relative playback rate change used to catch up, e.g. 0.1 for ±10% */
+  maxCatchUpRate?: number;
+  /** Subtitle files kept outside the manifest (WebVTT, SRT, TTML/IMSC or ASS/SSA) */
+  subtitles?: SubtitleSource[];
+  /** Language of the audio rendition to start with, e.g. "es" */
+  audioLanguage?: string;
+  /** Caps automatic quality to save data; defaults to the browser's Save-Data / slow connection hint */
+  dataSaver?: boolean;
+  /** Highest rendition height adaptive bitrate may pick */
+  maxHeight?: number;
+  /** Highest rendition bitrate adaptive bitrate may pick, in bits per second */
+  maxBitrate?: number;
+  /** Opens the diagnostics panel with buffer, bandwidth and bitrate charts on load */
+  debug?: boolean;
+  /** URL that receives batched analytics events via `navigator.sendBeacon` */
+  analyticsEndpoint?: string;
+  /** Custom analytics collector; takes precedence over `analyticsEndpoint` */
+  analyticsSink?: AnalyticsSink;
+  /** Set to false to turn off keyboard shortcuts */
+  keyboardShortcuts?: boolean;
+  /** Remaps shortcut keys per action; an empty list disables that action */
+  keyBindings?: Partial<KeyBindings>;
+  /**
+   * Remembers volume, mute, speed, caption and audio languages, caption style and data saver
+   * in localStorage. Explicit props still take precedence over what was remembered
+   */
+  persistPreferences?: boolean;
+  /** Starts playing once the first source is ready */
+  autoPlay?: boolean;
+  /** Starts muted; the viewer can still unmute */
+  defaultMuted?: boolean;
+  loop?: boolean;
+  /** Seconds to start the first source at */
+  startTime?: number;
+  /** Seconds at which playback stops, or jumps back to `startTime` when looping */
+  endTime?: number;
+  poster?: string;
+  /** Shown over the top of the video while the controls are visible */
+  title?: string;
+  /** Set to false to hide the control bar */
+  controls?: boolean;
+  defaultPlaybackRate?: number;
+  /** Preferred rendition height; the closest one at or below it is selected when qualities load */
+  defaultQuality?: number;
+  /** Hex color for the progress bar, highlights and active menu items */
+  accentColor?: string;
+  /**
+   * Storyboard WebVTT (or HLS image playlist) for seek-bar previews. HLS sources that
+   * carry image streams get previews without it
+   */
+  thumbnails?: string;
+  /** Samples seek-bar previews in the background when no storyboard is available */
+  generateThumbnails?: boolean;
+  /**
+   * WebVTT chapters file or JSON sidecar. HLS sources with chapter EXT-X-DATERANGE
+   * tags get chapters without it
+   */
+  chapters?: string;
+  /**
+   * Controlled state: when set, the player follows these values and reports user changes
+   * through the matching `on*Change` callback instead of applying them itself
+   */
+  playing?: boolean;
+  volume?: number;
+  muted?: boolean;
+  playbackRate?: number;
+  /** Selected quality level, -1 for automatic */
+  quality?: number;
+  onPlayingChange?: (playing: boolean) => void;
+  onVolumeChange?: (volume: number, muted: boolean) => void;
+  onPlaybackRateChange?: (rate: number) => void;
+  onQualitySelect?: (level: number) => void;
+  onReady?: () => void;
+  onError?: (error: PlayerError) => void;
+  /** The rendition being played changed, whether picked by the viewer or by adaptive bitrate */
+  onQualityChange?: (quality: QualityLevel) => void;
+}
+
+type SettingsMenuType = 'main' | 'playback' | 'quality' | 'audio' | 'subtitles' | 'captionStyle' | 'source' | 'chapters';
+
+const DEFAULT_STALL_TIMEOUT = 10000;
+const LIVE_EDGE_TOLERANCE = 3;
+const DEFAULT_TARGET_LATENCY = 3;
+const DEFAULT_MAX_CATCH_UP_RATE = 0.1;
+const PLAYBACK_SPEEDS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+// Range accepted from the API, matching the `speed` URL parameter
+const MIN_PLAYBACK_RATE = 0.25;
+const MAX_PLAYBACK_RATE = 4;
+const VOLUME_STEP = 0.1;
+const DEFAULT_FRAME_RATE = 30;
+const THUMBNAIL_WIDTH = 160;
+// Seconds into a chapter after which "previous chapter" restarts it instead of going back
+const CHAPTER_RESTART_THRESHOLD = 3;
+// Seeks at least this many seconds long offer a way back for a while
+const RETURN_POSITION_THRESHOLD = 30;
+const RETURN_POSITION_TIMEOUT = 8000;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
+const assertFinite = (value: number, name: string) => {
+  if (!Number.isFinite(value)) throw new RangeError(`Expected a finite ${name}, got ${value}`);
+};
+
+const VideoPlayer = React.forwardRef<VideoPlayerHandle, VideoPlayerProps>(({
+  url,
+  sources,
+  stallTimeout = DEFAULT_STALL_TIMEOUT,
+  lowLatency = false,
+  targetLatency = DEFAULT_TARGET_LATENCY,
+  maxCatchUpRate = DEFAULT_MAX_CATCH_UP_RATE,
+  subtitles,
+  audioLanguage,
+  dataSaver: initialDataSaver,
+  maxHeight,
+  maxBitrate,
+  debug = false,
+  analyticsEndpoint,
+  analyticsSink,
+  keyboardShortcuts = true,
+  persistPreferences = true,
+  keyBindings,
+  autoPlay = false,
+  defaultMuted = false,
+  loop = false,
+  startTime,
+  endTime,
+  poster,
+  title,
+  controls = true,
+  defaultPlaybackRate,
+  defaultQuality,
+  accentColor,
+  thumbnails,
+  generateThumbnails = true,
+  chapters: chaptersUrl,
+  playing: controlledPlaying,
+  volume: controlledVolume,
+  muted: controlledMuted,
+  playbackRate: controlledPlaybackRate,
+  quality: controlledQuality,
+  onPlayingChange,
+  onVolumeChange,
+  onPlaybackRateChange,
+  onQualitySelect,
+  onReady,
+  onError,
+  onQualityChange,
+  onPlay,
+  onPause,
+  onEnded,
+  onTimeUpdate,
+}, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const controlsRef = useRef<HTMLDivElement>(null);
+  const [controlsHeight, setControlsHeight] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [autoplayResult, setAutoplayResult] = useState<AutoplayResult | null>(null);
+  const { preferences: storedPreferences, savePreferences } = usePlayerPreferences(persistPreferences);
   const [volume, setVolume] = useState(1);
+  const [isMuted, setIsMuted] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [isLive, setIsLive] = useState(false);
+  const [liveWindow, setLiveWindow] = useState({ start: 0, end: 0, latency: 0, behindLive: 0 });
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  const [error, setError] = useState<PlayerError | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const resumeTimeRef = useRef(startTime ?? 0);
+  const resumePlaybackRef = useRef(autoPlay);
+  const sourceList = useMemo(() => sources?.length ? sources : url ? [{ url }] : [], [sources, url]);
+  const sourcesKey = sourceList.map((source) => `${source.url} ${source.type ?? ''}`).join('\n');
+  const [activeSource, setActiveSource] = useState({ key: sourcesKey, index: 0 });
+  const activeSourceIndex = activeSource.key === sourcesKey ? activeSource.index : 0;
+  const sourceUrl = sourceList[activeSourceIndex]?.url;
+  const sourceType = sourceList[activeSourceIndex]?.type;
+  const hasNextSource = activeSourceIndex < sourceList.length - 1;
+  const initialPlaybackRate = defaultPlaybackRate ?? storedPreferences.playbackRate;
+  const [playbackSpeed, setPlaybackSpeed] = useState(initialPlaybackRate ?? 1);
+  const preferredAudioLanguage = audioLanguage ?? storedPreferences.audioLanguage;
   const [showControls, setShowControls] = useState(true);
-  const [qualities, setQualities] = useState<{ height: number; level: number }[]>([]);
-  const [currentQuality, setCurrentQuality] = useState<number>(0);
+  const [qualities, setQualities] = useState<QualityLevel[]>([]);
+  const [currentQuality, setCurrentQuality] = useState<number>(-1);
+  const [playingLevel, setPlayingLevel] = useState(-1);
+  const [dataSaver, setDataSaver] = useState(() => initialDataSaver ?? storedPreferences.dataSaver ?? prefersDataSaver());
+  const qualityCap = useMemo(
+    () => resolveQualityCap({ maxHeight, maxBitrate }, dataSaver),
+    [maxHeight, maxBitrate, dataSaver]
+  );
+  const [audioTracks, setAudioTracks] = useState<AudioTrackOption[]>([]);
+  const [currentAudioTrack, setCurrentAudioTrack] = useState(-1);
   const [isBuffering, setIsBuffering] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(debug);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const keyBindingsKey = JSON.stringify(keyBindings ?? {});
+  const resolvedKeyBindings = useMemo(() => resolveKeyBindings(JSON.parse(keyBindingsKey)), [keyBindingsKey]);
   const controlsTimeoutRef = useRef<number>();
-  const hlsRef = useRef<Hls | null>(null);
+  const engineRef = useRef<PlaybackEngine | null>(null);
+  const callbacksRef = useRef({ onReady, onError, onQualityChange });
+  callbacksRef.current = { onReady, onError, onQualityChange };
+  const reportedLevelRef = useRef(-1);
+  useMediaEvents(videoRef, { onPlay, onPause, onEnded, onTimeUpdate });
+  const accentStyle = useMemo(() => {
+    const channels = accentColor ? hexToHslChannels(accentColor) : null;
+    return channels ? ({ '--player-accent': channels } as React.CSSProperties) : undefined;
+  }, [accentColor]);
+  const playbackTimeline = usePlaybackTimeline(videoRef, engineRef, qualities, playingLevel, showDiagnostics);
+  const analytics = useMemo(
+    () => analyticsSink ?? (analyticsEndpoint ? createBeaconSink(analyticsEndpoint) : null),
+    [analyticsSink, analyticsEndpoint]
+  );
+  const { tracks: externalSubtitles, addFile: addSubtitleFile } = useExternalSubtitles(subtitles);
+  const {
+    tracks: subtitleTracks,
+    activeTrackId: activeSubtitleId,
+    selectTrack: selectSubtitle,
+    cueLines,
+  } = useTextTracks(videoRef, engineRef, externalSubtitles);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const { captionStyle, updateCaptionStyle } = useCaptionStyle(persistPreferences);
+  const captionPreferenceAppliedRef = useRef(false);
   const isMobile = useIsMobile();
   const [currentMenu, setCurrentMenu] = useState<SettingsMenuType>('main');
-  const [timePreview, setTimePreview] = useState<{ time: number; position: number } | null>(null);
+  const [timePreview, setTimePreview] = useState<{ time: number; position: number; width: number } | null>(null);
+  const scrubRef = useRef<{
+    pointerId: number;
+    /** Where playback was before the drag began */
+    originTime: number;
+    time: number;
+    lastX: number;
+    resumePlayback: boolean;
+  } | null>(null);
+  const pendingScrubSeekRef = useRef<number | null>(null);
+  const [scrubLevel, setScrubLevel] = useState<ScrubLevel | null>(null);
+  const [returnPosition, setReturnPosition] = useState<number | null>(null);
+  const returnPositionTimeoutRef = useRef<number>();
+  usePlaybackAnalytics(videoRef, analytics, { sourceUrl, qualities, playingLevel, error, scrubbing: scrubLevel !== null });
+  const thumbnailCues = useThumbnails(thumbnails, sourceUrl, sourceType);
+  const generatedThumbnail = useGeneratedThumbnails(videoRef, {
+    enabled: generateThumbnails && !thumbnails && thumbnailCues.length === 0 && !isLive && !error,
+    sourceUrl,
+    sourceType,
+    time: timePreview?.time ?? null,
+  });
+  const sidecarChapters = useChapters(chaptersUrl);
+  const [streamChapters, setStreamChapters] = useState<ChapterEntry[]>([]);
   const doubleTapTimeoutRef = useRef<number>();
+  const lastSubtitleIdRef = useRef<string | null>(null);
   const [showDoubleTapIndicator, setShowDoubleTapIndicator] = useState<'left' | 'right' | null>(null);
 
   useEffect(() => {
     const video = videoRef.current;
-    if (!video) return;
+    if (!video || !sourceUrl) return;
 
-    const handleWaiting = () => setIsBuffering(true);
-    const handlePlaying = () => setIsBuffering(false);
+    const controller = new AbortController();
+    const startTime = resumeTimeRef.current;
+    const resumePlayback = resumePlaybackRef.current;
+    resumeTimeRef.current = 0;
+    resumePlaybackRef.current = false;
+    let stallTimeoutId: number | undefined;
 
-    if (Hls.isSupported()) {
-      const hls = new Hls({
-        startLevel: -1,
-        capLevelToPlayerSize: true,
-        debug: false,
-      });
-      hlsRef.current = hls;
+    const failover = () => {
+      resumeTimeRef.current = video.currentTime || startTime;
+      resumePlaybackRef.current = !video.paused;
+      setActiveSource({ key: sourcesKey, index: activeSourceIndex + 1 });
+    };
 
-      hls.loadSource(url);
-      hls.attachMedia(video);
+    const handleWaiting = () => {
+      setIsBuffering(true);
+      if (!hasNextSource) return;
+      window.clearTimeout(stallTimeoutId);
+      stallTimeoutId = window.setTimeout(failover, stallTimeout);
+    };
+    const handlePlaying = () => {
+      setIsBuffering(false);
+      window.clearTimeout(stallTimeoutId);
+    };
+    // A stall the viewer paused through is not the source's fault
+    const handlePause = () => window.clearTimeout(stallTimeoutId);
 
-      hls.on(Hls.Events.MANIFEST_PARSED, (_, data) => {
-        const availableQualities = data.levels.map((level, index) => ({
-          height: level.height,
-          level: index,
-        }));
-        setQualities(availableQualities);
-        setLoading(false);
-      });
+    setLoading(true);
+    setError(null);
+    setQualities([]);
+    setPlayingLevel(-1);
+    setAudioTracks([]);
+    setCurrentAudioTrack(-1);
+    setCurrentQuality(-1);
+    setIsLive(false);
+    setStreamChapters([]);
+    setReturnPosition(null);
+    captionPreferenceAppliedRef.current = false;
+
+    video.addEventListener('waiting', handleWaiting);
+    video.addEventListener('playing', handlePlaying);
+    video.addEventListener('pause', handlePause);
 
-      hls.on(Hls.Events.ERROR, (_, data) => {
-        if (data.fatal) {
-          setError('Failed to load video stream');
+    resolveStreamType(sourceUrl, sourceType, controller.signal).then((type) => {
+      if (controller.signal.aborted) return;
+
+      const engine = createEngine(type, video, sourceUrl, {
+        onQualities: setQualities,
+        onLevelSwitched: setPlayingLevel,
+        onAudioTracks: (tracks, activeId) => {
+          setAudioTracks(tracks);
+          setCurrentAudioTrack(activeId);
+        },
+        onLiveChange: setIsLive,
+        onChapters: setStreamChapters,
+        onReady: () => {
+          setLoading(false);
+          callbacksRef.current.onReady?.();
+          if (resumePlayback) {
+            playWithMutedFallback(video).then((result) => {
+              if (!controller.signal.aborted) setAutoplayResult(result);
+            });
+          }
+        },
+        onFatalError: (fatalError) => {
+          if (hasNextSource) {
+            failover();
+            return;
+          }
+          setError(fatalError);
           setLoading(false);
+        },
+      }, { startTime, lowLatency, targetLatency, preferredAudioLanguage });
+
+      if (!engine) {
+        if (hasNextSource) {
+          failover();
+          return;
         }
-      });
+        setError({
+          type: 'mediaError',
+          details: `unsupportedStreamType: ${type}`,
+          message: 'This video format is not supported by your browser',
+        });
+        setLoading(false);
+        return;
+      }
 
-      video.addEventListener('waiting', handleWaiting);
-      video.addEventListener('playing', handlePlaying);
+      engineRef.current = engine;
+    });
 
-      return () => {
-        video.removeEventListener('waiting', handleWaiting);
-        video.removeEventListener('playing', handlePlaying);
-        hls.destroy();
-      };
-    }
-  }, [url]);
+    return () => {
+      controller.abort();
+      window.clearTimeout(stallTimeoutId);
+      video.removeEventListener('waiting', handleWaiting);
+      video.removeEventListener('playing', handlePlaying);
+      video.removeEventListener('pause', handlePause);
+      engineRef.current?.destroy();
+      engineRef.current = null;
+    };
+  }, [sourceUrl, sourceType, sourcesKey, activeSourceIndex, hasNextSource, stallTimeout, lowLatency, targetLatency, preferredAudioLanguage, reloadKey]);
 
   useEffect(() => {
     const video = videoRef.current;
@@ -92,6 +448,156 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
     return () => video.removeEventListener('timeupdate', handleTimeUpdate);
   }, []);
 
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handleSeeked = () => {
+      const pending = pendingScrubSeekRef.current;
+      pendingScrubSeekRef.current = null;
+      if (pending !== null && scrubRef.current) video.currentTime = pending;
+    };
+
+    video.addEventListener('seeked', handleSeeked);
+    return () => {
+      video.removeEventListener('seeked', handleSeeked);
+      window.clearTimeout(returnPositionTimeoutRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (storedPreferences.volume !== undefined) video.volume = storedPreferences.volume;
+    if (defaultMuted) {
+      video.muted = true;
+    } else if (storedPreferences.muted !== undefined) {
+      video.muted = storedPreferences.muted;
+    }
+  }, [defaultMuted, storedPreferences]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || initialPlaybackRate === undefined) return;
+    setPlaybackSpeed(initialPlaybackRate);
+    // defaultPlaybackRate survives the reloads engines do when switching sources
+    video.defaultPlaybackRate = initialPlaybackRate;
+    video.playbackRate = initialPlaybackRate;
+  }, [initialPlaybackRate]);
+
+  // Turns on captions in the language chosen last time once a matching track shows up
+  useEffect(() => {
+    const language = storedPreferences.captionLanguage;
+    if (captionPreferenceAppliedRef.current || !language) return;
+    const track = subtitleTracks.find((option) => matchesLanguage(option.language, language));
+    if (!track) return;
+    captionPreferenceAppliedRef.current = true;
+    selectSubtitle(track.id);
+  }, [subtitleTracks, storedPreferences, selectSubtitle]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || endTime === undefined) return;
+
+    const handleTimeUpdate = () => {
+      if (video.currentTime < endTime) return;
+      if (loop) {
+        video.currentTime = startTime ?? 0;
+      } else if (!video.paused) {
+        video.pause();
+      }
+    };
+
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    return () => video.removeEventListener('timeupdate', handleTimeUpdate);
+  }, [endTime, startTime, loop]);
+
+  useEffect(() => {
+    if (!defaultQuality || controlledQuality !== undefined || qualities.length === 0) return;
+    const byHeight = sortQualities(qualities);
+    const quality = byHeight.find((item) => item.height <= defaultQuality) ?? byHeight[byHeight.length - 1];
+    engineRef.current?.setQuality(quality.level);
+    setCurrentQuality(quality.level);
+  }, [qualities, defaultQuality, controlledQuality]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    // Follow the element rather than our own calls: play() can be refused or interrupted
+    const handlePlay = () => {
+      setIsPlaying(true);
+      setAutoplayResult((result) => (result === 'blocked' ? null : result));
+    };
+    const handlePause = () => setIsPlaying(false);
+
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('pause', handlePause);
+    video.addEventListener('ended', handlePause);
+    return () => {
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('pause', handlePause);
+      video.removeEventListener('ended', handlePause);
+    };
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handleVolumeSync = () => {
+      setVolume(video.volume);
+      setIsMuted(video.muted);
+    };
+
+    video.addEventListener('volumechange', handleVolumeSync);
+    return () => video.removeEventListener('volumechange', handleVolumeSync);
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !isLive) return;
+
+    // The DVR window keeps moving while paused, so poll as well as listening to timeupdate
+    const updateLiveWindow = () => {
+      const { seekable } = video;
+      if (seekable.length === 0) return;
+
+      const start = seekable.start(0);
+      const end = seekable.end(seekable.length - 1);
+      const edge = engineRef.current?.getLiveEdge?.() ?? end;
+      const measuredLatency = engineRef.current?.getLatency?.();
+      setLiveWindow({
+        start,
+        end,
+        latency: Number.isFinite(measuredLatency) ? measuredLatency : Math.max(0, end - video.currentTime),
+        behindLive: Math.max(0, edge - video.currentTime),
+      });
+    };
+
+    updateLiveWindow();
+    const intervalId = window.setInterval(updateLiveWindow, 1000);
+    video.addEventListener('timeupdate', updateLiveWindow);
+    return () => {
+      window.clearInterval(intervalId);
+      video.removeEventListener('timeupdate', updateLiveWindow);
+    };
+  }, [isLive]);
+
+  useEffect(() => {
+    if (qualities.length === 0) return;
+    engineRef.current?.setQualityCap?.(qualityCap);
+  }, [qualities, qualityCap]);
+
+  useEffect(() => {
+    const controls = controlsRef.current;
+    if (!controls) return;
+
+    const observer = new ResizeObserver(() => setControlsHeight(controls.offsetHeight));
+    observer.observe(controls);
+    return () => observer.disconnect();
+  }, []);
+
   useEffect(() => {
     const handleFullscreenChange = () => {
       setIsFullscreen(!!document.fullscreenElement);
@@ -101,80 +607,313 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
   }, []);
 
-  const handlePlayPause = () => {
+  useEffect(() => {
+    if (!error) return;
+    callbacksRef.current.onError?.(error);
+  }, [error]);
+
+  useEffect(() => {
+    const quality = qualities.find((item) => item.level === playingLevel);
+    if (!quality) reportedLevelRef.current = -1;
+    if (!quality || quality.level === reportedLevelRef.current) return;
+    reportedLevelRef.current = quality.level;
+    callbacksRef.current.onQualityChange?.(quality);
+  }, [qualities, playingLevel]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || controlledPlaying === undefined) return;
+    if (controlledPlaying && video.paused) {
+      video.play().catch(() => {});
+    } else if (!controlledPlaying && !video.paused) {
+      video.pause();
+    }
+  }, [controlledPlaying]);
+
+  useEffect(() => {
     const video = videoRef.current;
     if (!video) return;
+    if (controlledVolume !== undefined) video.volume = clamp(controlledVolume, 0, 1);
+    if (controlledMuted !== undefined) video.muted = controlledMuted;
+  }, [controlledVolume, controlledMuted]);
 
-    if (video.paused) {
-      video.play();
-      setIsPlaying(true);
+  useEffect(() => {
+    if (controlledPlaybackRate === undefined) return;
+    setPlaybackSpeed(controlledPlaybackRate);
+    if (videoRef.current) {
+      videoRef.current.defaultPlaybackRate = controlledPlaybackRate;
+      videoRef.current.playbackRate = controlledPlaybackRate;
+    }
+  }, [controlledPlaybackRate]);
+
+  useEffect(() => {
+    if (controlledQuality === undefined || qualities.length === 0) return;
+    engineRef.current?.setQuality(controlledQuality);
+    setCurrentQuality(controlledQuality);
+  }, [controlledQuality, qualities]);
+
+  const requestPlaying = (playing: boolean) => {
+    const video = videoRef.current;
+    if (!video) return;
+    onPlayingChange?.(playing);
+    if (controlledPlaying !== undefined) return;
+
+    if (playing) {
+      video.play().catch(() => {});
     } else {
       video.pause();
-      setIsPlaying(false);
     }
   };
 
+  const requestVolume = (nextVolume: number, muted: boolean) => {
+    const video = videoRef.current;
+    if (!video) return;
+    onVolumeChange?.(nextVolume, muted);
+    if (controlledVolume === undefined) {
+      video.volume = nextVolume;
+      savePreferences({ volume: nextVolume });
+    }
+    if (controlledMuted === undefined) {
+      video.muted = muted;
+      savePreferences({ muted });
+    }
+  };
+
+  const handlePlayPause = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    requestPlaying(video.paused);
+  };
+
   const toggleFullscreen = async () => {
     if (!containerRef.current) return;
 
-    if (!document.fullscreenElement) {
-      await containerRef.current.requestFullscreen();
-    } else {
-      await document.exitFullscreen();
+    try {
+      if (!document.fullscreenElement) {
+        await containerRef.current.requestFullscreen();
+      } else {
+        await document.exitFullscreen();
+      }
+    } catch (fullscreenError) {
+      // Denied e.g. inside an iframe without allowfullscreen, or without a user gesture
+      toast({
+        variant: 'destructive',
+        title: 'Fullscreen is not available',
+        description: fullscreenError instanceof Error ? fullscreenError.message : undefined,
+      });
     }
   };
 
   const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = parseFloat(e.target.value);
-    setVolume(value);
-    if (videoRef.current) {
-      videoRef.current.volume = value;
+    requestVolume(value, value === 0);
+  };
+
+  const changeVolume = (delta: number) => {
+    const nextVolume = clamp(Math.round((volume + delta) * 10) / 10, 0, 1);
+    requestVolume(nextVolume, nextVolume === 0);
+  };
+
+  const toggleMute = () => {
+    if (isMuted || volume === 0) {
+      requestVolume(volume === 0 ? 1 : volume, false);
+    } else {
+      requestVolume(volume, true);
     }
   };
 
-  const handleTimeSeek = (e: React.MouseEvent<HTMLDivElement> | React.TouchEvent<HTMLDivElement>) => {
-    const progressBar = e.currentTarget;
-    const rect = progressBar.getBoundingClientRect();
-    const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
-    const offsetX = clientX - rect.left;
-    const percentage = offsetX / rect.width;
-    const newTime = percentage * duration;
-    
-    if (videoRef.current) {
-      videoRef.current.currentTime = newTime;
-      setCurrentTime(newTime);
+  const catchUpFactor = useLatencyCatchUp(videoRef, {
+    enabled: lowLatency && isLive && isPlaying,
+    latency: liveWindow.latency,
+    targetLatency,
+    playbackSpeed,
+    maxRateChange: maxCatchUpRate,
+  });
+
+  const timelineStart = isLive ? liveWindow.start : 0;
+  const timelineLength = (isLive ? liveWindow.end : duration) - timelineStart;
+  const isAtLiveEdge = isLive && liveWindow.behindLive <= LIVE_EDGE_TOLERANCE;
+
+  const timeAtPercentage = (percentage: number) => timelineStart + percentage * timelineLength;
+
+  const percentageOfTime = (time: number) => {
+    return timelineLength > 0 ? ((time - timelineStart) / timelineLength) * 100 : 0;
+  };
+
+  const timelineEnd = timelineStart + timelineLength;
+  const chapterList = useMemo(
+    () => normalizeChapters(sidecarChapters.length > 0 ? sidecarChapters : streamChapters, timelineEnd),
+    [sidecarChapters, streamChapters, timelineEnd]
+  );
+  const currentChapterIndex = findChapterIndex(chapterList, currentTime);
+  const currentChapter = chapterList[currentChapterIndex];
+
+  // Cuts a small gap into the bar at every chapter boundary inside the visible timeline
+  const getChapterMask = () => {
+    const stops = chapterList.slice(1)
+      .map((chapter) => percentageOfTime(chapter.start))
+      .filter((percentage) => percentage > 0 && percentage < 100)
+      .map((percentage) => (
+        `black calc(${percentage}% - 1px), transparent calc(${percentage}% - 1px), ` +
+        `transparent calc(${percentage}% + 1px), black calc(${percentage}% + 1px)`
+      ));
+    if (stops.length === 0) return undefined;
+    const image = `linear-gradient(to right, black 0%, ${stops.join(', ')}, black 100%)`;
+    return { maskImage: image, WebkitMaskImage: image };
+  };
+
+  const seekToChapter = (index: number) => {
+    const chapter = chapterList[index];
+    if (!chapter || !videoRef.current) return;
+    videoRef.current.currentTime = chapter.start;
+    setCurrentTime(chapter.start);
+  };
+
+  const stepChapter = (direction: 1 | -1) => {
+    if (chapterList.length === 0) return;
+    if (direction === -1 && currentChapter && currentTime - currentChapter.start > CHAPTER_RESTART_THRESHOLD) {
+      seekToChapter(currentChapterIndex);
+      return;
     }
+    seekToChapter(Math.max(0, currentChapterIndex + direction));
   };
 
-  const handleTimePreview = (e: React.MouseEvent<HTMLDivElement>) => {
-    const progressBar = e.currentTarget;
-    const rect = progressBar.getBoundingClientRect();
-    const offsetX = e.clientX - rect.left;
-    const percentage = offsetX / rect.width;
-    return formatTime(percentage * duration);
+  const handleGoLive = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = engineRef.current?.getLiveEdge?.() ?? liveWindow.end;
+    if (video.paused) {
+      requestPlaying(true);
+    }
   };
 
   const handleSpeedChange = (speed: number) => {
+    onPlaybackRateChange?.(speed);
+    if (controlledPlaybackRate !== undefined) return;
     setPlaybackSpeed(speed);
+    savePreferences({ playbackRate: speed });
     if (videoRef.current) {
+      // Keeps the rate through failover, Retry and source changes, which reset to the default
+      videoRef.current.defaultPlaybackRate = speed;
       videoRef.current.playbackRate = speed;
     }
   };
 
+  // Rates outside the list (from the URL, the API or a stored preference) step to the nearest entry
+  const stepSpeed = (direction: 1 | -1) => {
+    const next = direction === 1
+      ? PLAYBACK_SPEEDS.find((speed) => speed > playbackSpeed)
+      : [...PLAYBACK_SPEEDS].reverse().find((speed) => speed < playbackSpeed);
+    if (next !== undefined) handleSpeedChange(next);
+  };
+
   const handleQualityChange = (level: number) => {
-    if (hlsRef.current) {
-      hlsRef.current.currentLevel = level;
-      setCurrentQuality(level);
+    if (engineRef.current) {
+      onQualitySelect?.(level);
       setShowSettings(false);
+      if (controlledQuality !== undefined) return;
+      engineRef.current.setQuality(level);
+      setCurrentQuality(level);
     }
   };
 
+  const activeSubtitle = subtitleTracks.find((track) => track.id === activeSubtitleId) ?? null;
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFile(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node)) return;
+    setIsDraggingFile(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(false);
+
+    Array.from(e.dataTransfer.files).forEach((file) => {
+      addSubtitleFile(file)
+        .then(selectSubtitle)
+        .catch((dropError: Error) => {
+          toast({
+            variant: 'destructive',
+            title: 'Could not load subtitles',
+            description: dropError.message,
+          });
+        });
+    });
+  };
+
+  const playingQuality = qualities.find((quality) => quality.level === playingLevel);
+  const selectedQuality = qualities.find((quality) => quality.level === currentQuality);
+  const playingQualityLabel = playingQuality ? getQualityLabel(playingQuality, qualities) : null;
+  const qualityLabel = selectedQuality
+    ? getQualityLabel(selectedQuality, qualities)
+    : playingQualityLabel ? `Auto (${playingQualityLabel})` : 'Auto';
+
+  const handleAudioTrackChange = (id: number) => {
+    engineRef.current?.setAudioTrack?.(id);
+    setCurrentAudioTrack(id);
+    setShowSettings(false);
+    const language = audioTracks.find((track) => track.id === id)?.language;
+    if (language) savePreferences({ audioLanguage: language });
+  };
+
+  const handleSubtitleChange = (id: string | null) => {
+    selectSubtitle(id);
+    captionPreferenceAppliedRef.current = true;
+    const language = subtitleTracks.find((track) => track.id === id)?.language;
+    // Tracks without a language cannot be matched next time, so they leave the preference alone
+    if (!id || language) savePreferences({ captionLanguage: id ? language : null });
+  };
+
+  const toggleDataSaver = () => {
+    setDataSaver(!dataSaver);
+    savePreferences({ dataSaver: !dataSaver });
+  };
+
+  const handleRetry = () => {
+    resumeTimeRef.current = videoRef.current?.currentTime || currentTime;
+    setActiveSource({ key: sourcesKey, index: 0 });
+    setReloadKey((key) => key + 1);
+  };
+
+  const handleSourceChange = (index: number) => {
+    const video = videoRef.current;
+    if (index === activeSourceIndex) return;
+    resumeTimeRef.current = video?.currentTime ?? 0;
+    resumePlaybackRef.current = !!video && !video.paused;
+    setActiveSource({ key: sourcesKey, index });
+    setShowSettings(false);
+  };
+
   const handleSkip = (seconds: number) => {
     if (videoRef.current) {
       videoRef.current.currentTime += seconds;
     }
   };
 
+  const stepFrame = (direction: 1 | -1) => {
+    const video = videoRef.current;
+    if (!video || !video.paused) return;
+    video.currentTime += direction / (playingQuality?.frameRate || DEFAULT_FRAME_RATE);
+  };
+
+  const toggleCaptions = () => {
+    if (activeSubtitleId) {
+      lastSubtitleIdRef.current = activeSubtitleId;
+      handleSubtitleChange(null);
+      return;
+    }
+    const previous = subtitleTracks.find((track) => track.id === lastSubtitleIdRef.current);
+    handleSubtitleChange((previous ?? subtitleTracks[0])?.id ?? null);
+  };
+
   const formatTime = (seconds: number) => {
     const h = Math.floor(seconds / 3600);
     const m = Math.floor((seconds % 3600) / 60);
@@ -182,13 +921,6 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
     return `${h > 0 ? h + ':' : ''}${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
   };
 
-  const getProgressBarStyles = () => {
-    const progress = (currentTime / duration) * 100;
-    return {
-      background: `linear-gradient(to right, #ea384c ${progress}%, #403E43 ${progress}%)`,
-    };
-  };
-
   const getBufferedRanges = () => {
     if (!videoRef.current?.buffered) return [];
     const ranges = [];
@@ -215,23 +947,136 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
     }, 3000);
   };
 
-  const handleMouseMoveProgress = (e: React.MouseEvent<HTMLDivElement>) => {
-    const progressBar = e.currentTarget;
-    const rect = progressBar.getBoundingClientRect();
-    const offsetX = e.clientX - rect.left;
-    const percentage = offsetX / rect.width;
-    const previewTime = percentage * duration;
-    
+  const updateHoverPreview = (clientX: number, rect: DOMRect) => {
+    const offsetX = Math.min(rect.width, Math.max(0, clientX - rect.left));
     setTimePreview({
-      time: previewTime,
+      time: timeAtPercentage(offsetX / rect.width),
       position: offsetX,
+      width: rect.width,
     });
   };
 
-  const handleMouseLeaveProgress = () => {
-    setTimePreview(null);
+  // While scrubbing, seeks are issued one at a time so the paused video keeps showing fresh frames
+  const showScrubFrame = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.seeking) {
+      pendingScrubSeekRef.current = time;
+      return;
+    }
+    video.currentTime = time;
+  };
+
+  const scrubTo = (time: number, barWidth: number) => {
+    const scrub = scrubRef.current;
+    if (!scrub) return;
+    const clamped = Math.min(Math.max(time, timelineStart), timelineEnd);
+    scrub.time = clamped;
+    setCurrentTime(clamped);
+    setTimePreview({
+      time: clamped,
+      position: (percentageOfTime(clamped) / 100) * barWidth,
+      width: barWidth,
+    });
+    showScrubFrame(clamped);
+  };
+
+  const rememberReturnPosition = (from: number, to: number) => {
+    window.clearTimeout(returnPositionTimeoutRef.current);
+    if (Math.abs(to - from) < RETURN_POSITION_THRESHOLD) {
+      setReturnPosition(null);
+      return;
+    }
+    setReturnPosition(from);
+    returnPositionTimeoutRef.current = window.setTimeout(() => setReturnPosition(null), RETURN_POSITION_TIMEOUT);
+  };
+
+  const handleReturnToPosition = () => {
+    if (returnPosition === null || !videoRef.current) return;
+    window.clearTimeout(returnPositionTimeoutRef.current);
+    videoRef.current.currentTime = returnPosition;
+    setCurrentTime(returnPosition);
+    setReturnPosition(null);
+  };
+
+  const handleProgressPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const video = videoRef.current;
+    if (!video || timelineLength <= 0 || (e.pointerType === 'mouse' && e.button !== 0)) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const rect = e.currentTarget.getBoundingClientRect();
+    scrubRef.current = {
+      pointerId: e.pointerId,
+      originTime: video.currentTime,
+      time: video.currentTime,
+      lastX: e.clientX,
+      resumePlayback: !video.paused,
+    };
+    if (!video.paused) requestPlaying(false);
+    setScrubLevel(SCRUB_LEVELS[0]);
+    handleMouseMove();
+    scrubTo(timeAtPercentage((e.clientX - rect.left) / rect.width), rect.width);
+  };
+
+  const handleProgressPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scrub = scrubRef.current;
+    if (!scrub || scrub.pointerId !== e.pointerId) {
+      if (e.pointerType === 'mouse') updateHoverPreview(e.clientX, rect);
+      return;
+    }
+
+    // Dragging away from the bar trades reach for precision: the playhead then follows
+    // the pointer's movement at a reduced rate instead of jumping to where it points
+    const level = getScrubLevel(getDistanceFromBar(e.clientY, rect));
+    const frameDuration = 1 / (playingQuality?.frameRate || DEFAULT_FRAME_RATE);
+    const time = level.rate === 1
+      ? timeAtPercentage((e.clientX - rect.left) / rect.width)
+      : scrub.time + (e.clientX - scrub.lastX) * getScrubSecondsPerPixel(level, timelineLength, rect.width, frameDuration);
+    scrub.lastX = e.clientX;
+    setScrubLevel(level);
+    handleMouseMove();
+    scrubTo(time, rect.width);
   };
 
+  const handleProgressPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const scrub = scrubRef.current;
+    const video = videoRef.current;
+    if (!scrub || scrub.pointerId !== e.pointerId) return;
+
+    scrubRef.current = null;
+    pendingScrubSeekRef.current = null;
+    setScrubLevel(null);
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    if (video) {
+      video.currentTime = scrub.time;
+      setCurrentTime(scrub.time);
+      if (scrub.resumePlayback) requestPlaying(true);
+    }
+    rememberReturnPosition(scrub.originTime, scrub.time);
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const isOverBar = e.pointerType === 'mouse' && getDistanceFromBar(e.clientY, rect) === 0
+      && e.clientX >= rect.left && e.clientX <= rect.right;
+    if (isOverBar) {
+      updateHoverPreview(e.clientX, rect);
+    } else {
+      setTimePreview(null);
+    }
+  };
+
+  const handleProgressPointerLeave = () => {
+    if (!scrubRef.current) setTimePreview(null);
+  };
+
+  const previewThumbnail = timePreview
+    ? findThumbnail(thumbnailCues, timePreview.time) ?? generatedThumbnail
+    : null;
+  const chapterMask = getChapterMask();
+  const previewChapter = timePreview ? chapterList[findChapterIndex(chapterList, timePreview.time)] : undefined;
+
   const renderSettingsMenu = () => {
     switch (currentMenu) {
       case 'main':
@@ -255,12 +1100,100 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
                 <span>Quality</span>
                 <div className="flex items-center gap-2">
                   <span className="text-white/60">
-                    {qualities[currentQuality]?.height}p
+                    {qualityLabel}
                   </span>
                   <ChevronRight className="w-4 h-4" />
                 </div>
               </button>
             )}
+            {audioTracks.length > 1 && (
+              <button
+                onClick={() => setCurrentMenu('audio')}
+                className="flex items-center justify-between w-full px-3 py-2.5 text-sm rounded-md text-white/80 hover:bg-white/10"
+              >
+                <span>Audio</span>
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-white/60 truncate max-w-[120px]">
+                    {audioTracks.find((track) => track.id === currentAudioTrack)?.label ?? 'Default'}
+                  </span>
+                  <ChevronRight className="w-4 h-4 shrink-0" />
+                </div>
+              </button>
+            )}
+            {subtitleTracks.length > 0 && (
+              <button
+                onClick={() => setCurrentMenu('subtitles')}
+                className="flex items-center justify-between w-full px-3 py-2.5 text-sm rounded-md text-white/80 hover:bg-white/10"
+              >
+                <span>Subtitles/CC</span>
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-white/60 truncate max-w-[120px]">
+                    {activeSubtitle ? activeSubtitle.label : 'Off'}
+                  </span>
+                  <ChevronRight className="w-4 h-4 shrink-0" />
+                </div>
+              </button>
+            )}
+            {chapterList.length > 0 && (
+              <button
+                onClick={() => setCurrentMenu('chapters')}
+                className="flex items-center justify-between w-full px-3 py-2.5 text-sm rounded-md text-white/80 hover:bg-white/10"
+              >
+                <span>Chapters</span>
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-white/60 truncate max-w-[120px]">
+                    {currentChapter?.title ?? `${chapterList.length}`}
+                  </span>
+                  <ChevronRight className="w-4 h-4 shrink-0" />
+                </div>
+              </button>
+            )}
+            {sourceList.length > 1 && (
+              <button
+                onClick={() => setCurrentMenu('source')}
+                className="flex items-center justify-between w-full px-3 py-2.5 text-sm rounded-md text-white/80 hover:bg-white/10"
+              >
+                <span>Source</span>
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-white/60 truncate max-w-[120px]">
+                    {getSourceLabel(sourceList[activeSourceIndex], activeSourceIndex)}
+                  </span>
+                  <ChevronRight className="w-4 h-4 shrink-0" />
+                </div>
+              </button>
+            )}
+            <button
+              onClick={() => {
+                setShowStats(!showStats);
+                setShowSettings(false);
+              }}
+              className="flex items-center justify-between w-full px-3 py-2.5 text-sm rounded-md text-white/80 hover:bg-white/10"
+            >
+              <span>Stats for nerds</span>
+              <span className="text-white/60">{showStats ? 'On' : 'Off'}</span>
+            </button>
+            <button
+              onClick={() => {
+                setShowDiagnostics(!showDiagnostics);
+                setShowSettings(false);
+              }}
+              className="flex items-center justify-between w-full px-3 py-2.5 text-sm rounded-md text-white/80 hover:bg-white/10"
+            >
+              <span>Diagnostics</span>
+              <span className="text-white/60">{showDiagnostics ? 'On' : 'Off'}</span>
+            </button>
+            {keyboardShortcuts && (
+              <button
+                onClick={() => {
+                  setShowShortcuts(true);
+                  setShowSettings(false);
+                }}
+                className="flex items-center justify-between w-full px-3 py-2.5 text-sm rounded-md text-white/80 hover:bg-white/10"
+              >
+                <span>Keyboard shortcuts</span>
+                <span className="text-white/60">?</span>
+              </button>
+            )}
           </div>
         );
 
@@ -275,7 +1208,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
               <span>Playback Speed</span>
             </button>
             <div className="grid grid-cols-3 gap-1.5">
-              {[0.5, 0.75, 1, 1.25, 1.5, 2].map((speed) => (
+              {PLAYBACK_SPEEDS.map((speed) => (
                 <button
                   key={speed}
                   onClick={() => {
@@ -285,7 +1218,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
                   className={cn(
                     "px-3 py-2 text-sm rounded-md transition-all",
                     playbackSpeed === speed 
-                      ? "bg-[#ea384c] text-white" 
+                      ? "bg-player-accent text-white" 
                       : "text-white/80 hover:bg-white/10"
                   )}
                 >
@@ -306,23 +1239,72 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
               <ArrowLeft className="w-4 h-4" />
               <span>Quality</span>
             </button>
+            <button
+              role="switch"
+              aria-checked={dataSaver}
+              onClick={toggleDataSaver}
+              className="flex items-center justify-between w-full px-3 py-2.5 text-sm rounded-md text-white/80 hover:bg-white/10"
+            >
+              <span>Data saver</span>
+              <span className={cn(
+                "relative w-9 h-5 rounded-full transition-colors",
+                dataSaver ? "bg-player-accent" : "bg-white/20"
+              )}>
+                <span className={cn(
+                  "absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform",
+                  dataSaver && "translate-x-4"
+                )} />
+              </span>
+            </button>
+            {qualityCap && (
+              <p className="px-3 text-xs text-white/50">
+                Auto is limited to {formatQualityCap(qualityCap)}
+              </p>
+            )}
             <div className="space-y-1">
-              {qualities.map(({ height, level }) => (
+              {qualities.length > 1 && (
+                <button
+                  onClick={() => {
+                    handleQualityChange(-1);
+                    setCurrentMenu('main');
+                  }}
+                  className={cn(
+                    "flex items-center justify-between w-full px-3 py-2.5 text-sm rounded-md transition-all",
+                    currentQuality === -1
+                      ? "bg-player-accent text-white"
+                      : "text-white/80 hover:bg-white/10"
+                  )}
+                >
+                  <span>{playingQualityLabel ? `Auto (${playingQualityLabel})` : 'Auto'}</span>
+                  {currentQuality === -1 && (
+                    <ChevronRight className="w-4 h-4" />
+                  )}
+                </button>
+              )}
+              {sortQualities(qualities).map((quality) => (
                 <button
-                  key={level}
+                  key={quality.level}
                   onClick={() => {
-                    handleQualityChange(level);
+                    handleQualityChange(quality.level);
                     setCurrentMenu('main');
                   }}
                   className={cn(
                     "flex items-center justify-between w-full px-3 py-2.5 text-sm rounded-md transition-all",
-                    currentQuality === level 
-                      ? "bg-[#ea384c] text-white" 
+                    currentQuality === quality.level 
+                      ? "bg-player-accent text-white" 
                       : "text-white/80 hover:bg-white/10"
                   )}
                 >
-                  <span>{height}p</span>
-                  {currentQuality === level && (
+                  <div className={cn(
+                    "flex flex-col items-start",
+                    qualityCap && !isWithinCap(quality, qualityCap) && currentQuality !== quality.level && "opacity-50"
+                  )}>
+                    <span>{getQualityLabel(quality, qualities)}</span>
+                    {getQualityDetails(quality) && (
+                      <span className="text-xs opacity-60">{getQualityDetails(quality)}</span>
+                    )}
+                  </div>
+                  {currentQuality === quality.level && (
                     <ChevronRight className="w-4 h-4" />
                   )}
                 </button>
@@ -330,6 +1312,183 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
             </div>
           </>
         );
+
+      case 'audio':
+        return (
+          <>
+            <button
+              onClick={() => setCurrentMenu('main')}
+              className="flex items-center gap-2 text-white/80 hover:text-white mb-4"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span>Audio</span>
+            </button>
+            <div className="space-y-1">
+              {audioTracks.map((track) => (
+                <button
+                  key={track.id}
+                  onClick={() => {
+                    handleAudioTrackChange(track.id);
+                    setCurrentMenu('main');
+                  }}
+                  className={cn(
+                    "flex items-center justify-between w-full px-3 py-2.5 text-sm rounded-md transition-all",
+                    currentAudioTrack === track.id
+                      ? "bg-player-accent text-white"
+                      : "text-white/80 hover:bg-white/10"
+                  )}
+                >
+                  <div className="flex flex-col items-start min-w-0">
+                    <span className="truncate max-w-full">{track.label}</span>
+                    {(track.kind !== 'main' || track.language) && (
+                      <span className="text-xs opacity-60">
+                        {[
+                          track.language,
+                          track.kind === 'description' && 'Audio description',
+                          track.kind === 'commentary' && 'Commentary',
+                        ].filter(Boolean).join(' · ')}
+                      </span>
+                    )}
+                  </div>
+                  {currentAudioTrack === track.id && (
+                    <ChevronRight className="w-4 h-4 shrink-0" />
+                  )}
+                </button>
+              ))}
+            </div>
+          </>
+        );
+
+      case 'subtitles':
+        return (
+          <>
+            <button
+              onClick={() => setCurrentMenu('main')}
+              className="flex items-center gap-2 text-white/80 hover:text-white mb-4"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span>Subtitles/CC</span>
+            </button>
+            <div className="space-y-1">
+              {[null, ...subtitleTracks].map((track) => {
+                const isActive = (activeSubtitle?.id ?? null) === (track?.id ?? null);
+                return (
+                  <button
+                    key={track?.id ?? 'off'}
+                    onClick={() => {
+                      handleSubtitleChange(track?.id ?? null);
+                      setCurrentMenu('main');
+                    }}
+                    className={cn(
+                      "flex items-center justify-between w-full px-3 py-2.5 text-sm rounded-md transition-all",
+                      isActive
+                        ? "bg-player-accent text-white"
+                        : "text-white/80 hover:bg-white/10"
+                    )}
+                  >
+                    <span className="truncate">{track ? track.label : 'Off'}</span>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {track?.kind === 'captions' && (
+                        <span className="text-[10px] font-semibold border border-current rounded px-1">CC</span>
+                      )}
+                      {isActive && <ChevronRight className="w-4 h-4" />}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+            <button
+              onClick={() => setCurrentMenu('captionStyle')}
+              className="flex items-center justify-between w-full px-3 py-2.5 text-sm rounded-md text-white/80 hover:bg-white/10 border-t border-white/10"
+            >
+              <span>Caption style</span>
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </>
+        );
+
+      case 'captionStyle':
+        return (
+          <CaptionStyleMenu
+            captionStyle={captionStyle}
+            onChange={updateCaptionStyle}
+            onBack={() => setCurrentMenu('subtitles')}
+          />
+        );
+
+      case 'source':
+        return (
+          <>
+            <button
+              onClick={() => setCurrentMenu('main')}
+              className="flex items-center gap-2 text-white/80 hover:text-white mb-4"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span>Source</span>
+            </button>
+            <div className="space-y-1">
+              {sourceList.map((source, index) => (
+                <button
+                  key={`${index}-${source.url}`}
+                  onClick={() => {
+                    handleSourceChange(index);
+                    setCurrentMenu('main');
+                  }}
+                  className={cn(
+                    "flex items-center justify-between w-full px-3 py-2.5 text-sm rounded-md transition-all",
+                    activeSourceIndex === index
+                      ? "bg-player-accent text-white"
+                      : "text-white/80 hover:bg-white/10"
+                  )}
+                >
+                  <span className="truncate">{getSourceLabel(source, index)}</span>
+                  {activeSourceIndex === index && (
+                    <ChevronRight className="w-4 h-4 shrink-0" />
+                  )}
+                </button>
+              ))}
+            </div>
+          </>
+        );
+
+      case 'chapters':
+        return (
+          <>
+            <button
+              onClick={() => setCurrentMenu('main')}
+              className="flex items-center gap-2 text-white/80 hover:text-white mb-4"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span>Chapters</span>
+            </button>
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {chapterList.map((chapter, index) => (
+                <button
+                  key={`${index}-${chapter.start}`}
+                  onClick={() => {
+                    seekToChapter(index);
+                    setShowSettings(false);
+                    setCurrentMenu('main');
+                  }}
+                  className={cn(
+                    "flex items-center justify-between gap-3 w-full px-3 py-2.5 text-sm rounded-md transition-all",
+                    currentChapterIndex === index
+                      ? "bg-player-accent text-white"
+                      : "text-white/80 hover:bg-white/10"
+                  )}
+                >
+                  <span className="truncate">{chapter.title}</span>
+                  <span className={cn(
+                    "shrink-0 tabular-nums",
+                    currentChapterIndex === index ? "text-white/80" : "text-white/60"
+                  )}>
+                    {formatTime(chapter.start)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </>
+        );
     }
   };
 
@@ -360,21 +1519,90 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
     }
   };
 
-  if (error) {
-    return (
-      <div className="w-full h-[60vh] flex items-center justify-center bg-black text-white">
-        <p className="text-red-500">{error}</p>
-      </div>
-    );
-  }
+  useImperativeHandle(ref, () => ({
+    play: () => requestPlaying(true),
+    pause: () => requestPlaying(false),
+    seek: (time) => {
+      assertFinite(time, 'time');
+      if (videoRef.current) {
+        const target = timelineLength > 0 ? clamp(time, timelineStart, timelineEnd) : Math.max(0, time);
+        videoRef.current.currentTime = target;
+        setCurrentTime(target);
+      }
+    },
+    setQuality: handleQualityChange,
+    setRate: (rate) => {
+      assertFinite(rate, 'rate');
+      if (rate <= 0) throw new RangeError(`Expected a positive rate, got ${rate}`);
+      handleSpeedChange(clamp(rate, MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE));
+    },
+    setVolume: (nextVolume) => {
+      assertFinite(nextVolume, 'volume');
+      const clamped = clamp(nextVolume, 0, 1);
+      requestVolume(clamped, clamped === 0);
+    },
+    getState: () => {
+      const video = videoRef.current;
+      return {
+        playing: !!video && !video.paused,
+        ended: !!video?.ended,
+        currentTime: video?.currentTime ?? 0,
+        duration: video?.duration ?? 0,
+        volume,
+        muted: isMuted,
+        playbackRate: playbackSpeed,
+        quality: currentQuality,
+        playingQuality: playingQuality ?? null,
+        qualities,
+        isLive,
+        buffering: isBuffering,
+        error,
+      };
+    },
+  }));
+
+  useKeyboardShortcuts(containerRef, resolvedKeyBindings, {
+    playPause: () => {
+      handlePlayPause();
+      handleMouseMove();
+    },
+    seekBackward: () => handleSkip(-10),
+    seekForward: () => handleSkip(10),
+    seekBackwardShort: () => handleSkip(-5),
+    seekForwardShort: () => handleSkip(5),
+    volumeUp: () => changeVolume(VOLUME_STEP),
+    volumeDown: () => changeVolume(-VOLUME_STEP),
+    mute: toggleMute,
+    fullscreen: () => {
+      toggleFullscreen();
+    },
+    captions: toggleCaptions,
+    speedDown: () => stepSpeed(-1),
+    speedUp: () => stepSpeed(1),
+    seekToPercentage: (key) => {
+      const video = videoRef.current;
+      if (video && timelineLength > 0) {
+        const from = video.currentTime;
+        video.currentTime = timeAtPercentage(parseInt(key, 10) / 10);
+        rememberReturnPosition(from, video.currentTime);
+      }
+    },
+    previousFrame: () => stepFrame(-1),
+    nextFrame: () => stepFrame(1),
+    previousChapter: () => stepChapter(-1),
+    nextChapter: () => stepChapter(1),
+    help: () => setShowShortcuts(!showShortcuts),
+  }, keyboardShortcuts);
 
   return (
     <div 
       ref={containerRef}
+      tabIndex={keyboardShortcuts ? 0 : undefined}
       className={cn(
-        "relative w-full bg-black group transition-all duration-300",
+        "relative w-full bg-black group transition-all duration-300 outline-none",
         isFullscreen ? "h-screen" : "aspect-video"
       )}
+      style={accentStyle}
       onMouseMove={handleMouseMove}
       onMouseLeave={() => {
         if (isPlaying) {
@@ -383,11 +1611,44 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
         }
       }}
       onTouchEnd={handleTouchEnd}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
     >
-      {(loading || isBuffering) && (
+      {isDraggingFile && (
+        <div className="absolute inset-2 flex items-center justify-center border-2 border-dashed border-white/60 rounded-lg bg-black/70 z-50 pointer-events-none">
+          <div className="flex flex-col items-center gap-3 text-white/90">
+            <Upload className="w-10 h-10" />
+            <span className="text-sm">Drop a subtitle file (VTT, SRT, TTML, ASS)</span>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div
+          className="absolute inset-0 flex items-center justify-center bg-black text-white z-40"
+          onTouchEnd={(e) => e.stopPropagation()}
+        >
+          <div className="flex flex-col items-center gap-3 text-center px-6">
+            <p className="text-red-500">{error.message}</p>
+            <p className="text-white/60 text-xs font-mono break-all">
+              {error.type}: {error.details}
+            </p>
+            <button
+              onClick={handleRetry}
+              className="flex items-center gap-2 mt-2 px-4 py-2 text-sm rounded-md bg-player-accent text-white hover:bg-player-accent/90 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              <span>Retry</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!error && (loading || isBuffering) && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/50 z-20 backdrop-blur-sm transition-all duration-300">
           <div className="flex flex-col items-center gap-4">
-            <Loader2 className="w-12 h-12 text-[#ea384c] animate-spin" />
+            <Loader2 className="w-12 h-12 text-player-accent animate-spin" />
             <span className="text-white/80 text-sm">
               {loading ? 'Loading video...' : 'Buffering...'}
             </span>
@@ -399,35 +1660,168 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
         ref={videoRef}
         className="w-full h-full cursor-pointer"
         playsInline
+        loop={loop && endTime === undefined}
+        poster={poster}
         onClick={handlePlayPause}
       />
 
-      <div className={cn(
+      {showStats && (
+        <StatsOverlay
+          videoRef={videoRef}
+          engineRef={engineRef}
+          sourceUrl={sourceUrl}
+          qualities={qualities}
+          playingLevel={playingLevel}
+          latency={isLive ? liveWindow.latency : null}
+          onClose={() => setShowStats(false)}
+        />
+      )}
+
+      {showShortcuts && (
+        <ShortcutsOverlay bindings={resolvedKeyBindings} onClose={() => setShowShortcuts(false)} />
+      )}
+
+      {showDiagnostics && (
+        <DiagnosticsPanel
+          timeline={playbackTimeline}
+          qualities={qualities}
+          onClose={() => setShowDiagnostics(false)}
+        />
+      )}
+
+      {cueLines.length > 0 && (
+        <div
+          className="absolute left-0 right-0 flex flex-col items-center gap-1 px-4 text-base sm:text-xl pointer-events-none z-10 transition-all duration-300"
+          style={captionStyle.position === 'top'
+            ? { top: 24 }
+            : { bottom: showControls && controls ? controlsHeight + 8 : 24 }}
+        >
+          {cueLines.map((line, index) => (
+            <span
+              key={index}
+              className="max-w-[90%] text-center px-2 py-0.5 rounded whitespace-pre-wrap"
+              style={getCaptionTextStyle(captionStyle)}
+            >
+              {line}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {autoplayResult === 'muted' && isMuted && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            requestVolume(volume || 1, false);
+            setAutoplayResult(null);
+          }}
+          onTouchEnd={(e) => e.stopPropagation()}
+          className={cn(
+            "absolute left-3 z-30 flex items-center gap-2 px-3 py-2 rounded-md bg-white text-[#1A1F2C] text-sm font-medium shadow-lg animate-fade-in hover:bg-white/90 transition-colors",
+            title ? "top-12" : "top-3"
+          )}
+        >
+          <VolumeX className="w-5 h-5" />
+          <span>Tap to unmute</span>
+        </button>
+      )}
+
+      {autoplayResult === 'blocked' && !isPlaying && !loading && !error && (
+        <div
+          className="absolute inset-0 flex items-center justify-center z-20"
+          onTouchEnd={(e) => e.stopPropagation()}
+        >
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              requestPlaying(true);
+            }}
+            aria-label="Play"
+            className="flex items-center justify-center w-20 h-20 rounded-full bg-player-accent/90 text-white shadow-xl hover:bg-player-accent hover:scale-105 transition-all"
+          >
+            <Play className="w-10 h-10 ml-1" fill="currentColor" />
+          </button>
+        </div>
+      )}
+
+      {title && (
+        <div className={cn(
+          "absolute top-0 left-0 right-0 px-4 pt-3 pb-8 bg-gradient-to-b from-black/70 to-transparent pointer-events-none z-10 transition-opacity duration-300",
+          showControls ? "opacity-100" : "opacity-0"
+        )}>
+          <h2 className="text-white text-sm sm:text-base font-medium truncate">{title}</h2>
+        </div>
+      )}
+
+      <div ref={controlsRef} className={cn(
         "absolute bottom-0 left-0 right-0 bg-gradient-to-t from-[#1A1F2C]/90 via-[#1A1F2C]/50 to-transparent px-2 sm:px-4 py-4 sm:py-6 transition-all duration-300",
-        showControls ? "opacity-100 translate-y-0" : "opacity-0 translate-y-4"
+        showControls ? "opacity-100 translate-y-0" : "opacity-0 translate-y-4",
+        !controls && "hidden"
       )}>
         <div className="flex flex-col gap-2 sm:gap-3 max-w-screen-lg mx-auto">
           <div className="relative group/progress">
             {timePreview && (
               <div 
-                className="absolute bottom-full mb-2 bg-[#1A1F2C] text-white text-sm px-2 py-1 rounded transform -translate-x-1/2 pointer-events-none backdrop-blur-sm"
-                style={{ left: timePreview.position }}
+                className={cn(
+                  "absolute bottom-full mb-2 bg-[#1A1F2C] text-white text-sm px-2 py-1 rounded transform -translate-x-1/2 pointer-events-none backdrop-blur-sm",
+                  (previewThumbnail || previewChapter) && "flex flex-col items-center gap-0.5",
+                  previewThumbnail && "gap-1 p-1"
+                )}
+                style={{
+                  // Keep the thumbnail inside the bar instead of clipping at either end
+                  left: previewThumbnail
+                    ? Math.min(Math.max(timePreview.position, THUMBNAIL_WIDTH / 2 + 4), timePreview.width - THUMBNAIL_WIDTH / 2 - 4)
+                    : timePreview.position,
+                }}
               >
-                {formatTime(timePreview.time)}
+                {previewThumbnail && <ThumbnailPreview cue={previewThumbnail} width={THUMBNAIL_WIDTH} />}
+                {previewChapter && (
+                  <span className="max-w-[160px] truncate text-xs font-medium">{previewChapter.title}</span>
+                )}
+                <span>
+                  {isLive
+                    ? `-${formatTime(Math.max(0, liveWindow.end - timePreview.time))}`
+                    : formatTime(timePreview.time)}
+                </span>
+                {scrubLevel && scrubLevel.rate < 1 && (
+                  <span className="text-[11px] text-white/60 whitespace-nowrap">{scrubLevel.label}</span>
+                )}
               </div>
             )}
+
+            {returnPosition !== null && !timePreview && (
+              <button
+                onClick={handleReturnToPosition}
+                onTouchEnd={(e) => e.stopPropagation()}
+                className="absolute bottom-full left-0 mb-2 flex items-center gap-1.5 px-2.5 py-1 text-xs rounded-full bg-black/70 text-white/90 hover:bg-black/90 backdrop-blur-sm transition-colors"
+              >
+                <Undo2 className="w-3.5 h-3.5" />
+                <span>
+                  Back to {isLive
+                    ? `-${formatTime(Math.max(0, liveWindow.end - returnPosition))}`
+                    : formatTime(returnPosition)}
+                </span>
+              </button>
+            )}
             
             <div 
-              className="w-full h-2 sm:h-1.5 rounded-full cursor-pointer relative overflow-hidden transition-all group-hover/progress:h-3 sm:group-hover/progress:h-2.5"
-              onClick={handleTimeSeek}
-              onTouchStart={handleTimeSeek}
-              onMouseMove={handleMouseMoveProgress}
-              onMouseLeave={handleMouseLeaveProgress}
+              className={cn(
+                "w-full h-2 sm:h-1.5 rounded-full cursor-pointer touch-none relative overflow-hidden transition-all group-hover/progress:h-3 sm:group-hover/progress:h-2.5",
+                chapterMask && "bg-white/10"
+              )}
+              style={chapterMask}
+              onPointerDown={handleProgressPointerDown}
+              onPointerMove={handleProgressPointerMove}
+              onPointerUp={handleProgressPointerUp}
+              onPointerCancel={handleProgressPointerUp}
+              onPointerLeave={handleProgressPointerLeave}
+              // Keeps the container's tap-to-play and double-tap-to-skip out of scrubbing
+              onTouchEnd={(e) => e.stopPropagation()}
             >
               {/* Buffered ranges */}
               {getBufferedRanges().map((range, index) => {
-                const start = (range.start / duration) * 100;
-                const end = (range.end / duration) * 100;
+                const start = Math.max(0, percentageOfTime(range.start));
+                const end = Math.min(100, percentageOfTime(range.end));
                 const width = end - start;
                 return (
                   <div
@@ -443,10 +1837,13 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
               
               {/* Progress bar */}
               <div 
-                className="absolute left-0 top-0 bottom-0 bg-[#ea384c] rounded-full transition-all"
-                style={{ width: `${(currentTime / duration) * 100}%` }}
+                className={cn(
+                  "absolute left-0 top-0 bottom-0 bg-player-accent rounded-full transition-all",
+                  scrubLevel && "transition-none"
+                )}
+                style={{ width: `${percentageOfTime(currentTime)}%` }}
               >
-                <div className="absolute right-0 top-1/2 -translate-y-1/2 w-4 h-4 bg-[#ea384c] rounded-full opacity-0 group-hover/progress:opacity-100 transition-opacity shadow-lg" />
+                <div className="absolute right-0 top-1/2 -translate-y-1/2 w-4 h-4 bg-player-accent rounded-full opacity-0 group-hover/progress:opacity-100 transition-opacity shadow-lg" />
               </div>
 
               {/* Hover effect */}
@@ -454,10 +1851,24 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
             </div>
 
             {/* Timestamps */}
-            <div className="flex justify-between items-center mt-1 text-xs text-white/60">
-              <span>{formatTime(currentTime)}</span>
-              <span>-{formatTime(duration - currentTime)}</span>
-            </div>
+            {isLive ? (
+              <div className="flex justify-between items-center mt-1 text-xs text-white/60">
+                <span>{isAtLiveEdge ? 'Live' : `-${formatTime(liveWindow.behindLive)}`}</span>
+                <span>
+                  Latency {liveWindow.latency.toFixed(1)}s
+                  {lowLatency && ` / ${targetLatency}s target`}
+                  {catchUpFactor !== 1 && ` · ${catchUpFactor}x`}
+                </span>
+              </div>
+            ) : (
+              <div className="flex justify-between items-center mt-1 text-xs text-white/60">
+                <span className="min-w-0 truncate">
+                  {formatTime(currentTime)}
+                  {currentChapter && ` · ${currentChapter.title}`}
+                </span>
+                <span className="shrink-0">-{formatTime(duration - currentTime)}</span>
+              </div>
+            )}
           </div>
 
           <div className={cn(
@@ -466,7 +1877,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
           )}>
             <button
               onClick={handlePlayPause}
-              className="text-white hover:text-[#ea384c] transition-colors p-2"
+              className="text-white hover:text-player-accent transition-colors p-2"
             >
               {isPlaying ? 
                 <Pause className="w-6 h-6 sm:w-6 sm:h-6" /> : 
@@ -478,13 +1889,13 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
               <>
                 <button
                   onClick={() => handleSkip(-10)}
-                  className="text-white hover:text-[#ea384c] transition-colors p-2"
+                  className="text-white hover:text-player-accent transition-colors p-2"
                 >
                   <RotateCcw className="w-5 h-5 sm:w-5 sm:h-5" />
                 </button>
                 <button
                   onClick={() => handleSkip(10)}
-                  className="text-white hover:text-[#ea384c] transition-colors p-2"
+                  className="text-white hover:text-player-accent transition-colors p-2"
                 >
                   <RotateCw className="w-5 h-5 sm:w-5 sm:h-5" />
                 </button>
@@ -496,10 +1907,10 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
               isMobile ? "w-20 sm:w-24" : "w-24 sm:w-32"
             )}>
               <button 
-                onClick={() => setVolume(volume === 0 ? 1 : 0)}
-                className="text-white hover:text-[#ea384c] transition-colors p-2"
+                onClick={toggleMute}
+                className="text-white hover:text-player-accent transition-colors p-2"
               >
-                {volume === 0 ? (
+                {isMuted || volume === 0 ? (
                   <VolumeX className="w-6 h-6 sm:w-6 sm:h-6" />
                 ) : volume < 0.5 ? (
                   <Volume1 className="w-6 h-6 sm:w-6 sm:h-6" />
@@ -512,23 +1923,37 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
                 min="0"
                 max="1"
                 step="0.1"
-                value={volume}
+                value={isMuted ? 0 : volume}
                 onChange={handleVolumeChange}
-                className="w-full h-1.5 accent-[#ea384c] bg-[#403E43] rounded-full appearance-none cursor-pointer opacity-0 group-hover/volume:opacity-100 transition-opacity"
+                className="w-full h-1.5 accent-player-accent bg-[#403E43] rounded-full appearance-none cursor-pointer opacity-0 group-hover/volume:opacity-100 transition-opacity"
               />
             </div>
 
             <div className="flex items-center gap-2 justify-end ml-auto">
-              <span className="text-white/90 text-sm sm:text-base font-medium">
-                {formatTime(currentTime)} / {formatTime(duration)}
-              </span>
+              {isLive ? (
+                <button
+                  onClick={handleGoLive}
+                  title={isAtLiveEdge ? 'Watching live' : 'Go to live'}
+                  className={cn(
+                    "flex items-center gap-1.5 px-2 py-1 rounded text-xs font-semibold tracking-wide transition-colors",
+                    isAtLiveEdge ? "bg-player-accent text-white" : "bg-white/10 text-white/70 hover:bg-white/20"
+                  )}
+                >
+                  <Radio className="w-3.5 h-3.5" />
+                  LIVE
+                </button>
+              ) : (
+                <span className="text-white/90 text-sm sm:text-base font-medium">
+                  {formatTime(currentTime)} / {formatTime(duration)}
+                </span>
+              )}
 
               <div className="relative">
                 <button 
                   onClick={() => setShowSettings(!showSettings)}
                   className={cn(
                     "text-white transition-colors p-2 rounded-full",
-                    showSettings ? "bg-[#ea384c] text-white hover:bg-[#ea384c]/90" : "hover:text-[#ea384c]"
+                    showSettings ? "bg-player-accent text-white hover:bg-player-accent/90" : "hover:text-player-accent"
                   )}
                 >
                   <Settings className="w-6 h-6 sm:w-6 sm:h-6" />
@@ -545,7 +1970,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
 
               <button
                 onClick={toggleFullscreen}
-                className="text-white hover:text-[#ea384c] transition-colors p-2"
+                className="text-white hover:text-player-accent transition-colors p-2"
               >
                 {isFullscreen ? (
                   <Minimize2 className="w-6 h-6 sm:w-6 sm:h-6" />
@@ -558,7 +1983,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
         </div>
       </div>
 
-      {isMobile && showControls && (
+      {isMobile && showControls && controls && (
         <div className="absolute top-1/2 left-0 right-0 -translate-y-1/2 flex justify-between px-4 sm:px-8 pointer-events-none">
           <button
             onClick={() => handleSkip(-10)}
@@ -591,6 +2016,8 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url }) => {
       )}
     </div>
   );
-};
+});
+
+VideoPlayer.displayName = 'VideoPlayer';
 
 export default VideoPlayer;
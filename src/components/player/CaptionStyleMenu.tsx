@@ -0,0 +1,132 @@
+import React from 'react';
+import { ArrowLeft } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  CAPTION_BACKGROUND_OPACITIES,
+  CAPTION_EDGE_STYLES,
+  CAPTION_FONT_FAMILIES,
+  CAPTION_FONT_SCALES,
+  CAPTION_POSITIONS,
+  CAPTION_TEXT_COLORS,
+  DEFAULT_CAPTION_STYLE,
+  getCaptionTextStyle,
+  type CaptionStyle,
+} from '@/lib/player/caption-style';
+
+interface CaptionStyleMenuProps {
+  captionStyle: CaptionStyle;
+  onChange: (changes: Partial<CaptionStyle>) => void;
+  onBack: () => void;
+}
+
+interface OptionGroupProps<T> {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onSelect: (value: T) => void;
+  columns?: number;
+}
+
+const OptionGroup = <T extends string | number>({ label, options, value, onSelect, columns = 3 }: OptionGroupProps<T>) => (
+  <div className="space-y-1.5">
+    <span className="text-xs uppercase tracking-wide text-white/50">{label}</span>
+    <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+      {options.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => onSelect(option.value)}
+          className={cn(
+            "px-2 py-1.5 text-xs rounded-md transition-all truncate",
+            value === option.value
+              ? "bg-player-accent text-white"
+              : "text-white/80 hover:bg-white/10"
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const CaptionStyleMenu: React.FC<CaptionStyleMenuProps> = ({ captionStyle, onChange, onBack }) => {
+  return (
+    <>
+      <button
+        onClick={onBack}
+        className="flex items-center gap-2 text-white/80 hover:text-white mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        <span>Caption style</span>
+      </button>
+
+      <div className="flex items-center justify-center h-16 rounded-md bg-gradient-to-br from-slate-500 to-slate-900 overflow-hidden">
+        <span className="px-2 py-0.5 rounded text-sm" style={getCaptionTextStyle(captionStyle)}>
+          Captions look like this
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        <OptionGroup
+          label="Font"
+          options={CAPTION_FONT_FAMILIES}
+          value={captionStyle.fontFamily}
+          onSelect={(fontFamily) => onChange({ fontFamily })}
+        />
+        <OptionGroup
+          label="Size"
+          columns={5}
+          options={CAPTION_FONT_SCALES.map((scale) => ({ value: scale, label: `${scale * 100}%` }))}
+          value={captionStyle.fontScale}
+          onSelect={(fontScale) => onChange({ fontScale })}
+        />
+        <div className="space-y-1.5">
+          <span className="text-xs uppercase tracking-wide text-white/50">Text color</span>
+          <div className="grid grid-cols-8 gap-1.5">
+            {CAPTION_TEXT_COLORS.map((color) => (
+              <button
+                key={color.value}
+                onClick={() => onChange({ textColor: color.value })}
+                title={color.label}
+                aria-label={color.label}
+                className={cn(
+                  "h-6 rounded-full border-2 transition-all",
+                  captionStyle.textColor === color.value ? "border-player-accent scale-110" : "border-white/20"
+                )}
+                style={{ backgroundColor: color.value }}
+              />
+            ))}
+          </div>
+        </div>
+        <OptionGroup
+          label="Background"
+          columns={5}
+          options={CAPTION_BACKGROUND_OPACITIES.map((opacity) => ({ value: opacity, label: `${opacity * 100}%` }))}
+          value={captionStyle.backgroundOpacity}
+          onSelect={(backgroundOpacity) => onChange({ backgroundOpacity })}
+        />
+        <OptionGroup
+          label="Edge"
+          options={CAPTION_EDGE_STYLES}
+          value={captionStyle.edgeStyle}
+          onSelect={(edgeStyle) => onChange({ edgeStyle })}
+        />
+        <OptionGroup
+          label="Position"
+          columns={2}
+          options={CAPTION_POSITIONS}
+          value={captionStyle.position}
+          onSelect={(position) => onChange({ position })}
+        />
+        <button
+          onClick={() => onChange(DEFAULT_CAPTION_STYLE)}
+          className="w-full px-3 py-2 text-xs rounded-md text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default CaptionStyleMenu;
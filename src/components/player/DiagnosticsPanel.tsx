@@ -0,0 +1,170 @@
+import React from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { X } from 'lucide-react';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { getQualityLabel } from '@/lib/player/quality';
+import type { PlaybackTimeline, TimelineLevelSwitch } from '@/hooks/use-playback-timeline';
+import type { QualityLevel } from '@/lib/player/types';
+
+interface DiagnosticsPanelProps {
+  timeline: PlaybackTimeline;
+  qualities: QualityLevel[];
+  onClose: () => void;
+}
+
+const bufferConfig = {
+  buffer: { label: 'Buffer (s)', color: '#22c55e' },
+} satisfies ChartConfig;
+
+const bitrateConfig = {
+  bandwidth: { label: 'Bandwidth (Mbps)', color: '#3b82f6' },
+  bitrate: { label: 'Bitrate (Mbps)', color: 'hsl(var(--player-accent))' },
+} satisfies ChartConfig;
+
+const chartClassName = "h-28 w-full aspect-auto [&_.recharts-cartesian-axis-tick_text]:fill-white/50 [&_.recharts-cartesian-grid_line]:stroke-white/10";
+
+const formatSeconds = (value: number) => `${value}s`;
+
+/** Explains a rendition switch from the conditions ABR saw when it happened */
+const describeSwitch = (item: TimelineLevelSwitch, previous: TimelineLevelSwitch | undefined) => {
+  if (!previous) return 'initial';
+  const direction = item.height > previous.height || (item.bitrate ?? 0) > (previous.bitrate ?? 0) ? 'up' : 'down';
+  if (direction === 'down' && item.buffer < 2) return 'down · low buffer';
+  if (direction === 'down' && item.bandwidth !== null && previous.bitrate !== null && item.bandwidth < previous.bitrate) {
+    return 'down · bandwidth below bitrate';
+  }
+  if (direction === 'up' && item.bandwidth !== null && item.bitrate !== null && item.bandwidth > item.bitrate) {
+    return 'up · bandwidth headroom';
+  }
+  return direction;
+};
+
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ timeline, qualities, onClose }) => {
+  const { samples, stalls, switches } = timeline;
+  const lastTime = samples[samples.length - 1]?.t ?? 0;
+  const firstTime = samples[0]?.t ?? 0;
+  const visibleStalls = stalls.filter((stall) => (stall.end ?? lastTime) >= firstTime);
+  const visibleSwitches = switches.filter((item) => item.t >= firstTime);
+
+  const stallAreas = visibleStalls.map((stall) => (
+    <ReferenceArea
+      key={stall.start}
+      x1={Math.max(stall.start, firstTime)}
+      x2={stall.end ?? lastTime}
+      fill="#f59e0b"
+      fillOpacity={0.2}
+      ifOverflow="hidden"
+    />
+  ));
+
+  const switchLines = visibleSwitches.map((item) => (
+    <ReferenceLine key={item.t} x={item.t} stroke="#ffffff" strokeOpacity={0.35} strokeDasharray="3 3" />
+  ));
+
+  const xAxis = (
+    <XAxis
+      dataKey="t"
+      type="number"
+      domain={['dataMin', 'dataMax']}
+      tickFormatter={formatSeconds}
+      tickLine={false}
+      axisLine={false}
+      minTickGap={24}
+    />
+  );
+
+  return (
+    <div
+      className="absolute top-2 right-2 z-30 w-[calc(100%-1rem)] sm:w-[420px] max-h-[calc(100%-1rem)] overflow-y-auto bg-black/80 backdrop-blur-sm rounded-md border border-white/10 p-3 text-[11px] text-white/90"
+      onClick={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium text-white">Diagnostics</span>
+        <button
+          onClick={onClose}
+          aria-label="Close diagnostics"
+          className="text-white/60 hover:text-white p-1"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {samples.length < 2 ? (
+        <p className="text-white/60 py-6 text-center">Collecting samples...</p>
+      ) : (
+        <>
+          <p className="text-white/50 mb-1">Buffer ahead</p>
+          <ChartContainer config={bufferConfig} className={chartClassName}>
+            <LineChart data={samples} margin={{ top: 4, right: 4, bottom: 0, left: -24 }}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              <YAxis tickLine={false} axisLine={false} width={48} />
+              {stallAreas}
+              {switchLines}
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatSeconds(payload[0]?.payload.t)} />} />
+              <Line dataKey="buffer" type="monotone" stroke="var(--color-buffer)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ChartContainer>
+
+          <p className="text-white/50 mt-3 mb-1">Bandwidth estimate and selected bitrate</p>
+          <ChartContainer config={bitrateConfig} className={chartClassName}>
+            <LineChart data={samples} margin={{ top: 4, right: 4, bottom: 0, left: -24 }}>
+              <CartesianGrid vertical={false} />
+              {xAxis}
+              <YAxis tickLine={false} axisLine={false} width={48} />
+              {stallAreas}
+              {switchLines}
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatSeconds(payload[0]?.payload.t)} />} />
+              <Line dataKey="bandwidth" type="monotone" stroke="var(--color-bandwidth)" strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+              <Line dataKey="bitrate" type="stepAfter" stroke="var(--color-bitrate)" strokeWidth={1.5} dot={false} connectNulls isAnimationActive={false} />
+            </LineChart>
+          </ChartContainer>
+
+          <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-white/60">
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-[#22c55e]" />Buffer</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-[#3b82f6]" />Bandwidth</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-player-accent" />Bitrate</span>
+            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-[#f59e0b]/60" />Stall</span>
+            <span className="flex items-center gap-1"><span className="w-2 border-t border-dashed border-white/60" />Level switch</span>
+          </div>
+        </>
+      )}
+
+      <div className="mt-3 grid grid-cols-2 gap-x-3 text-white/60">
+        <span>Stalls: <span className="text-white/90">{stalls.length}</span></span>
+        <span>
+          Stalled for:{' '}
+          <span className="text-white/90">
+            {stalls.reduce((total, stall) => total + (stall.end ?? lastTime) - stall.start, 0).toFixed(1)}s
+          </span>
+        </span>
+      </div>
+
+      {switches.length > 0 && (
+        <div className="mt-3">
+          <p className="text-white/50 mb-1">Level switches</p>
+          <ul className="space-y-0.5 font-mono">
+            {switches.slice(-8).reverse().map((item) => {
+              const index = switches.indexOf(item);
+              const quality = qualities.find((level) => level.level === item.level);
+              return (
+                <li key={item.t} className="flex gap-2">
+                  <span className="text-white/50 w-12 shrink-0">{formatSeconds(item.t)}</span>
+                  <span className="w-14 shrink-0">{quality ? getQualityLabel(quality, qualities) : `${item.height}p`}</span>
+                  <span className="text-white/60 truncate">
+                    {describeSwitch(item, switches[index - 1])}
+                    {item.bandwidth !== null && ` · bw ${item.bandwidth} Mbps`}
+                    {` · buf ${item.buffer.toFixed(1)}s`}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { formatShortcutKeys, SHORTCUT_DESCRIPTIONS, type KeyBindings, type ShortcutAction } from '@/lib/player/shortcuts';
+
+interface ShortcutsOverlayProps {
+  bindings: KeyBindings;
+  onClose: () => void;
+}
+
+const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ bindings, onClose }) => {
+  const actions = (Object.keys(bindings) as ShortcutAction[]).filter((action) => bindings[action].length > 0);
+
+  return (
+    <div
+      className="absolute inset-0 z-40 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+      onTouchEnd={(e) => e.stopPropagation()}
+    >
+      <div
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+        className="relative w-full max-w-md max-h-full overflow-y-auto bg-[#1A1F2C]/95 rounded-lg border border-white/10 p-4 animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          aria-label="Close keyboard shortcuts"
+          className="absolute top-3 right-3 text-white/60 hover:text-white p-1"
+        >
+          <X className="w-4 h-4" />
+        </button>
+        <h2 className="text-white text-sm font-medium mb-3">Keyboard shortcuts</h2>
+        <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-2 text-sm">
+          {actions.map((action) => (
+            <React.Fragment key={action}>
+              <dt className="text-white/80">{SHORTCUT_DESCRIPTIONS[action]}</dt>
+              <dd className="flex flex-wrap justify-end gap-1">
+                {formatShortcutKeys(bindings[action]).map((key) => (
+                  <kbd
+                    key={key}
+                    className="min-w-[1.75rem] px-1.5 py-0.5 text-center text-xs font-mono text-white bg-white/10 border border-white/20 rounded"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsOverlay;
@@ -0,0 +1,106 @@
+import React, { RefObject, useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { formatBitrate, getQualityLabel } from '@/lib/player/quality';
+import { collectPlaybackStats, type PlaybackStats } from '@/lib/player/stats';
+import type { PlaybackEngine, QualityLevel } from '@/lib/player/types';
+
+interface StatsOverlayProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  engineRef: RefObject<PlaybackEngine | null>;
+  sourceUrl?: string;
+  qualities: QualityLevel[];
+  playingLevel: number;
+  latency: number | null;
+  onClose: () => void;
+}
+
+const REFRESH_INTERVAL = 1000;
+
+const StatsOverlay: React.FC<StatsOverlayProps> = ({
+  videoRef,
+  engineRef,
+  sourceUrl,
+  qualities,
+  playingLevel,
+  latency,
+  onClose,
+}) => {
+  const [stats, setStats] = useState<PlaybackStats | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    // The engine is created asynchronously and replaced on failover, so re-subscribe whenever it changes
+    let subscribedEngine: PlaybackEngine | null = null;
+    let unsubscribe: (() => void) | undefined;
+
+    const update = () => {
+      const engine = engineRef.current;
+      if (engine !== subscribedEngine) {
+        unsubscribe?.();
+        subscribedEngine = engine;
+        unsubscribe = engine?.subscribeStats?.(update);
+      }
+      setStats(collectPlaybackStats(video, engine));
+    };
+
+    update();
+    const intervalId = window.setInterval(update, REFRESH_INTERVAL);
+    return () => {
+      window.clearInterval(intervalId);
+      unsubscribe?.();
+    };
+  }, [videoRef, engineRef]);
+
+  if (!stats) return null;
+
+  const quality = qualities.find((item) => item.level === playingLevel);
+  const rows: [string, string][] = [
+    ['Engine', stats.engine ?? '—'],
+    ['Source', sourceUrl ?? '—'],
+    ['Level', quality ? `${getQualityLabel(quality, qualities)} (#${quality.level})` : '—'],
+    ['Level bitrate', quality?.bitrate ? formatBitrate(quality.bitrate) : '—'],
+    ['Resolution', stats.videoWidth ? `${stats.videoWidth}×${stats.videoHeight}` : '—'],
+    ['Codecs', [stats.videoCodec, stats.audioCodec].filter(Boolean).join(', ') || '—'],
+    ['Bandwidth', stats.bandwidthEstimate ? formatBitrate(stats.bandwidthEstimate) : '—'],
+    ['Buffer ahead', `${stats.bufferAhead.toFixed(2)} s`],
+    [
+      'Dropped frames',
+      stats.totalFrames !== undefined ? `${stats.droppedFrames} / ${stats.totalFrames}` : '—',
+    ],
+    ['Latency', latency !== null ? `${latency.toFixed(2)} s` : '—'],
+    [
+      'Segment',
+      stats.fragment
+        ? `${stats.fragment.loading ? 'loading' : 'loaded'} #${stats.fragment.sequence ?? '?'} ${stats.fragment.url}`
+        : '—',
+    ],
+  ];
+
+  return (
+    <div
+      className="absolute top-2 left-2 z-30 max-w-[calc(100%-1rem)] sm:max-w-md bg-black/80 backdrop-blur-sm rounded-md border border-white/10 p-3 text-[11px] font-mono text-white/90"
+      onClick={(e) => e.stopPropagation()}
+      onTouchEnd={(e) => e.stopPropagation()}
+    >
+      <button
+        onClick={onClose}
+        aria-label="Close stats"
+        className="absolute top-1.5 right-1.5 text-white/60 hover:text-white p-1"
+      >
+        <X className="w-3.5 h-3.5" />
+      </button>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 pr-5">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-white/50 whitespace-nowrap">{label}</dt>
+            <dd className="break-all">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+export default StatsOverlay;
@@ -0,0 +1,40 @@
+import React from 'react';
+import type { ThumbnailCue } from '@/lib/player/thumbnails';
+
+interface ThumbnailPreviewProps {
+  cue: ThumbnailCue;
+  /** Rendered width in pixels; the height follows the tile's aspect ratio */
+  width?: number;
+}
+
+const DEFAULT_WIDTH = 160;
+
+const ThumbnailPreview: React.FC<ThumbnailPreviewProps> = ({ cue, width = DEFAULT_WIDTH }) => {
+  if (!cue.region) {
+    return (
+      <div
+        className="rounded bg-black bg-cover bg-center"
+        style={{ width, height: width * 9 / 16, backgroundImage: `url("${cue.url}")` }}
+      />
+    );
+  }
+
+  // Draw the tile at its natural size and scale it, so the sprite sheet's dimensions are not needed
+  const scale = width / cue.region.width;
+  return (
+    <div className="rounded overflow-hidden bg-black" style={{ width, height: cue.region.height * scale }}>
+      <div
+        style={{
+          width: cue.region.width,
+          height: cue.region.height,
+          backgroundImage: `url("${cue.url}")`,
+          backgroundPosition: `-${cue.region.x}px -${cue.region.y}px`,
+          transform: `scale(${scale})`,
+          transformOrigin: 'top left',
+        }}
+      />
+    </div>
+  );
+};
+
+export default ThumbnailPreview;
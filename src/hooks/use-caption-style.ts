@@ -0,0 +1,22 @@
+import { useCallback, useState } from 'react';
+import { DEFAULT_CAPTION_STYLE, type CaptionStyle } from '@/lib/player/caption-style';
+import { loadPreferences, updatePreferences } from '@/lib/player/preferences';
+
+/** Caption styling, saved with the rest of the viewer's preferences unless `persist` is false */
+export function useCaptionStyle(persist = true) {
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(() => (
+    persist
+      ? { ...DEFAULT_CAPTION_STYLE, ...loadPreferences().captionStyle } as CaptionStyle
+      : DEFAULT_CAPTION_STYLE
+  ));
+
+  const updateCaptionStyle = useCallback((changes: Partial<CaptionStyle>) => {
+    setCaptionStyle((current) => {
+      const next = { ...current, ...changes };
+      if (persist) updatePreferences({ captionStyle: next });
+      return next;
+    });
+  }, [persist]);
+
+  return { captionStyle, updateCaptionStyle };
+}
@@ -0,0 +1,24 @@
+import { useTextResources } from '@/hooks/use-text-resources';
+import { parseChapterJson, parseChapterVtt, type ChapterEntry } from '@/lib/player/chapters';
+
+/** Accepts a WebVTT chapters file or a JSON sidecar, told apart by their contents */
+const parseChapters = (text: string): ChapterEntry[] => {
+  const trimmed = text.trimStart();
+  const chapters = trimmed.startsWith('[') || trimmed.startsWith('{')
+    ? parseChapterJson(JSON.parse(text))
+    : parseChapterVtt(text);
+  if (chapters.length === 0) throw new Error('No chapters found');
+  return chapters;
+};
+
+const NO_CHAPTERS: ChapterEntry[] = [];
+
+/** Chapters from a sidecar file; stream-declared chapters arrive through the engine instead */
+export function useChapters(chaptersUrl: string | undefined) {
+  const [chapters] = useTextResources(chaptersUrl ? [{ url: chaptersUrl }] : [], {
+    parse: parseChapters,
+    errorTitle: 'Could not load chapters',
+  });
+
+  return chapters ?? NO_CHAPTERS;
+}
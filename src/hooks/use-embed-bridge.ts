@@ -0,0 +1,154 @@
+import { RefObject, useEffect, useMemo, useRef } from 'react';
+import {
+  createEmbedMessage,
+  isEmbedMessage,
+  isOriginAllowed,
+  isSupportedVersion,
+  type EmbedCommand,
+  type EmbedEventMap,
+  type EmbedEventMessage,
+  type EmbedEventType,
+  type EmbedResponseMessage,
+} from '@/lib/embed/protocol';
+import type { VideoPlayerHandle, VideoPlayerProps } from '@/components/VideoPlayer';
+
+interface EmbedBridgeOptions {
+  enabled: boolean;
+  /** Origins allowed to control the player; defaults to the embedding page's origin */
+  allowedOrigins: string[];
+  onLoad: (url: string) => void;
+}
+
+const getReferrerOrigin = () => {
+  try {
+    return document.referrer ? new URL(document.referrer).origin : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Connects the player to the page embedding it through the postMessage protocol in
+ * `@/lib/embed/protocol`. Returns callback props to pass to `VideoPlayer`.
+ */
+export function useEmbedBridge(
+  playerRef: RefObject<VideoPlayerHandle>,
+  { enabled, allowedOrigins, onLoad }: EmbedBridgeOptions
+): Partial<VideoPlayerProps> {
+  const hostOriginRef = useRef<string | null>(null);
+  const isReadyRef = useRef(false);
+  const onLoadRef = useRef(onLoad);
+  onLoadRef.current = onLoad;
+  const originsKey = allowedOrigins.join(' ');
+
+  const allowlist = useMemo(() => {
+    const origins = originsKey ? originsKey.split(' ') : [];
+    const referrerOrigin = getReferrerOrigin();
+    return origins.length > 0 ? origins : referrerOrigin ? [referrerOrigin] : [];
+  }, [originsKey]);
+
+  const postEvent = useMemo(() => <T extends EmbedEventType>(event: T, data: EmbedEventMap[T], origin?: string) => {
+    if (!enabled || window.parent === window) return;
+    const referrerOrigin = getReferrerOrigin();
+    const targetOrigin = origin
+      ?? hostOriginRef.current
+      ?? (referrerOrigin && isOriginAllowed(referrerOrigin, allowlist) ? referrerOrigin : null)
+      ?? (allowlist.includes('*') ? '*' : null);
+    if (!targetOrigin) return;
+    window.parent.postMessage(createEmbedMessage<EmbedEventMessage<T>>({ kind: 'event', event, data }), targetOrigin);
+  }, [enabled, allowlist]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const runCommand = (command: EmbedCommand) => {
+      const player = playerRef.current;
+      if (command.type === 'load') {
+        if (!/^https?:\/\//i.test(command.url)) throw new Error('Only http(s) URLs can be loaded');
+        isReadyRef.current = false;
+        onLoadRef.current(command.url);
+        return;
+      }
+      if (!player) throw new Error('Player is not mounted');
+
+      switch (command.type) {
+        case 'play':
+          player.play();
+          break;
+        case 'pause':
+          player.pause();
+          break;
+        case 'seek':
+          player.seek(command.time);
+          break;
+        case 'setVolume':
+          player.setVolume(command.volume);
+          break;
+        case 'setQuality':
+          player.setQuality(command.level);
+          break;
+        case 'setRate':
+          player.setRate(command.rate);
+          break;
+        case 'getState':
+          break;
+        default:
+          throw new Error(`Unknown command "${(command as { type: string }).type}"`);
+      }
+    };
+
+    const handleMessage = (e: MessageEvent) => {
+      if (e.source !== window.parent || !isEmbedMessage(e.data) || e.data.kind !== 'command') return;
+      if (!isOriginAllowed(e.origin, allowlist)) return;
+      const message = e.data;
+
+      const respond = (response: Pick<EmbedResponseMessage, 'ok' | 'error' | 'state'>) => {
+        window.parent.postMessage(
+          createEmbedMessage<EmbedResponseMessage>({ kind: 'response', id: message.id, ...response }),
+          e.origin
+        );
+      };
+
+      if (!isSupportedVersion(message.version)) {
+        respond({ ok: false, error: `Unsupported protocol version ${message.version}` });
+        return;
+      }
+
+      if (hostOriginRef.current !== e.origin) {
+        hostOriginRef.current = e.origin;
+        if (isReadyRef.current) postEvent('ready', undefined, e.origin);
+      }
+
+      try {
+        runCommand(message.command);
+        respond({ ok: true, state: playerRef.current?.getState() });
+      } catch (commandError) {
+        respond({ ok: false, error: (commandError as Error).message });
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [enabled, allowlist, playerRef, postEvent]);
+
+  return useMemo(() => {
+    if (!enabled) return {};
+    const postState = () => {
+      const state = playerRef.current?.getState();
+      if (state) postEvent('state', state);
+    };
+    return {
+      onReady: () => {
+        isReadyRef.current = true;
+        postEvent('ready', undefined);
+        postState();
+      },
+      onTimeUpdate: (currentTime, duration) => postEvent('timeupdate', { currentTime, duration }),
+      onEnded: () => postEvent('ended', undefined),
+      onError: (error) => postEvent('error', error),
+      onPlay: postState,
+      onPause: postState,
+      onQualityChange: postState,
+    };
+  }, [enabled, playerRef, postEvent]);
+}
@@ -0,0 +1,59 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { useTextResources } from '@/hooks/use-text-resources';
+import { detectSubtitleFormat, parseSubtitles } from '@/lib/player/subtitle-parsers';
+import { getLanguageName } from '@/lib/player/language';
+import type { ExternalSubtitleTrack } from '@/lib/player/text-tracks';
+import type { SubtitleSource } from '@/lib/player/types';
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const getLabel = (source: SubtitleSource, index: number) => {
+  return source.label || getLanguageName(source.language ?? '') || `Subtitles ${index + 1}`;
+};
+
+/**
+ * Loads subtitle files given by URL and ones dropped onto the player, parsing them into
+ * cues the player draws itself.
+ */
+export function useExternalSubtitles(sources: SubtitleSource[] | undefined) {
+  const [fileTracks, setFileTracks] = useState<ExternalSubtitleTrack[]>([]);
+  const nextIdRef = useRef(0);
+
+  const createId = useCallback(() => {
+    nextIdRef.current += 1;
+    return `external-${nextIdRef.current}`;
+  }, []);
+
+  // Every load gets a fresh id, so a selected track does not carry over to a replaced source
+  const sourceTracks = useTextResources(sources ?? [], {
+    parse: (text, source, index): ExternalSubtitleTrack => {
+      const cues = parseSubtitles(text, source.format ?? detectSubtitleFormat(text, source.url));
+      if (cues.length === 0) throw new Error('No cues found');
+      return { id: createId(), label: getLabel(source, index), language: source.language ?? '', kind: 'subtitles', cues };
+    },
+    errorTitle: 'Could not load subtitles',
+    describe: getLabel,
+  });
+
+  // Tracks from `sources` keep their order; dropped files follow
+  const tracks = useMemo(
+    () => [...sourceTracks.filter((track): track is ExternalSubtitleTrack => !!track), ...fileTracks],
+    [sourceTracks, fileTracks]
+  );
+
+  const addFile = useCallback(async (file: File) => {
+    const text = await file.text();
+    const cues = parseSubtitles(text, detectSubtitleFormat(text, file.name));
+    if (cues.length === 0) {
+      throw new Error(`No subtitle cues found in ${file.name}`);
+    }
+    const id = createId();
+    setFileTracks((current) => [
+      ...current,
+      { id, label: stripExtension(file.name), language: '', kind: 'subtitles', cues },
+    ]);
+    return id;
+  }, [createId]);
+
+  return { tracks, addFile };
+}
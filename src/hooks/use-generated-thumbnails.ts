@@ -0,0 +1,58 @@
+import { RefObject, useEffect, useRef, useState } from 'react';
+import { createFrameSampler, type FrameSampler } from '@/lib/player/frame-sampler';
+import { getBufferAhead } from '@/lib/player/stats';
+import type { ThumbnailCue } from '@/lib/player/thumbnails';
+
+// Below this much buffer the main player gets the bandwidth to itself
+const MIN_MAIN_BUFFER = 5;
+
+interface GeneratedThumbnailsOptions {
+  enabled: boolean;
+  sourceUrl?: string;
+  sourceType?: string;
+  /** Time being previewed, or null when nothing is hovered */
+  time: number | null;
+}
+
+/**
+ * Preview frames sampled on demand by a hidden pipeline. The pipeline only starts after
+ * the first preview request, so viewers who never hover the seek bar pay nothing.
+ */
+export function useGeneratedThumbnails(
+  videoRef: RefObject<HTMLVideoElement>,
+  { enabled, sourceUrl, sourceType, time }: GeneratedThumbnailsOptions
+): ThumbnailCue | null {
+  const samplerRef = useRef<FrameSampler | null>(null);
+  const [started, setStarted] = useState(false);
+  const [, setFrameCount] = useState(0);
+
+  useEffect(() => {
+    if (enabled && time !== null) setStarted(true);
+  }, [enabled, time]);
+
+  useEffect(() => {
+    if (!enabled || !started || !sourceUrl) return;
+
+    const sampler = createFrameSampler(sourceUrl, sourceType, {
+      shouldYield: () => {
+        const video = videoRef.current;
+        return !!video && !video.paused && getBufferAhead(video) < MIN_MAIN_BUFFER;
+      },
+    });
+    samplerRef.current = sampler;
+    const unsubscribe = sampler.subscribe(() => setFrameCount((count) => count + 1));
+
+    return () => {
+      unsubscribe();
+      sampler.destroy();
+      samplerRef.current = null;
+    };
+  }, [videoRef, enabled, started, sourceUrl, sourceType]);
+
+  useEffect(() => {
+    if (time !== null) samplerRef.current?.request(time);
+  }, [time, started]);
+
+  const frameUrl = time !== null ? samplerRef.current?.getFrame(time) : null;
+  return frameUrl && time !== null ? { start: time, end: time, url: frameUrl } : null;
+}
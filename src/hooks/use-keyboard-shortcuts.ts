@@ -0,0 +1,38 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { findShortcutAction, isEditableTarget, type KeyBindings, type ShortcutAction } from '@/lib/player/shortcuts';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, (key: string) => void>>;
+
+/**
+ * Runs the handler bound to a pressed key while focus is inside `containerRef` or it is
+ * fullscreen. Handlers may change every render; only `bindings` and `enabled` re-attach.
+ */
+export function useKeyboardShortcuts(
+  containerRef: RefObject<HTMLElement>,
+  bindings: KeyBindings,
+  handlers: ShortcutHandlers,
+  enabled = true
+) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const container = containerRef.current;
+      if (!container || e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      const isActive = container.contains(document.activeElement) || document.fullscreenElement === container;
+      if (!isActive || isEditableTarget(e.target)) return;
+
+      const action = findShortcutAction(bindings, e.key);
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      e.preventDefault();
+      handler(e.key);
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [containerRef, bindings, enabled]);
+}
@@ -0,0 +1,46 @@
+import { RefObject, useEffect, useRef, useState } from 'react';
+
+const CATCH_UP_TOLERANCE = 0.5;
+const CATCH_UP_GAIN = 0.05;
+
+interface LatencyCatchUpOptions {
+  enabled: boolean;
+  latency: number;
+  targetLatency: number;
+  playbackSpeed: number;
+  /** Largest deviation from the viewer's speed, e.g. 0.1 allows 0.9x–1.1x of it */
+  maxRateChange: number;
+}
+
+/**
+ * Nudges `playbackRate` so live latency converges on the target. The adjustment is a
+ * factor applied on top of `playbackSpeed`, never a replacement for it.
+ */
+export function useLatencyCatchUp(
+  videoRef: RefObject<HTMLVideoElement>,
+  { enabled, latency, targetLatency, playbackSpeed, maxRateChange }: LatencyCatchUpOptions
+) {
+  const [rateFactor, setRateFactor] = useState(1);
+  const appliedFactorRef = useRef(1);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let factor = 1;
+    if (enabled && !video.paused) {
+      const drift = latency - targetLatency;
+      if (Math.abs(drift) > CATCH_UP_TOLERANCE) {
+        const change = Math.max(-maxRateChange, Math.min(maxRateChange, drift * CATCH_UP_GAIN));
+        factor = Math.round((1 + change) * 100) / 100;
+      }
+    }
+
+    if (factor === 1 && appliedFactorRef.current === 1) return;
+    appliedFactorRef.current = factor;
+    video.playbackRate = playbackSpeed * factor;
+    setRateFactor(factor);
+  }, [videoRef, enabled, latency, targetLatency, playbackSpeed, maxRateChange]);
+
+  return rateFactor;
+}
@@ -0,0 +1,35 @@
+import { RefObject, useEffect, useRef } from 'react';
+
+export interface MediaEventCallbacks {
+  onPlay?: () => void;
+  onPause?: () => void;
+  onEnded?: () => void;
+  onTimeUpdate?: (currentTime: number, duration: number) => void;
+}
+
+/** Forwards media element events to callback props, always calling the latest ones */
+export function useMediaEvents(videoRef: RefObject<HTMLVideoElement>, callbacks: MediaEventCallbacks) {
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handlePlay = () => callbacksRef.current.onPlay?.();
+    const handlePause = () => callbacksRef.current.onPause?.();
+    const handleEnded = () => callbacksRef.current.onEnded?.();
+    const handleTimeUpdate = () => callbacksRef.current.onTimeUpdate?.(video.currentTime, video.duration);
+
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('pause', handlePause);
+    video.addEventListener('ended', handleEnded);
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    return () => {
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('pause', handlePause);
+      video.removeEventListener('ended', handleEnded);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+    };
+  }, [videoRef]);
+}
@@ -0,0 +1,186 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { createAnalyticsSession, type AnalyticsSession, type AnalyticsSink } from '@/lib/player/analytics';
+import type { PlayerError, QualityLevel } from '@/lib/player/types';
+
+const WATCH_TIME_INTERVAL = 30000;
+
+interface PlaybackAnalyticsOptions {
+  sourceUrl?: string;
+  qualities: QualityLevel[];
+  playingLevel: number;
+  error: PlayerError | null;
+  /** While true, seeks are collected into one `seek` event reported once scrubbing ends */
+  scrubbing?: boolean;
+}
+
+const roundSeconds = (milliseconds: number) => Math.round(milliseconds / 10) / 100;
+
+/**
+ * Reports a viewing session to `sink`: startup time, play/pause/seek, rendition switches,
+ * rebuffering, errors and watch time. Does nothing without a sink.
+ */
+export function usePlaybackAnalytics(
+  videoRef: RefObject<HTMLVideoElement>,
+  sink: AnalyticsSink | null,
+  { sourceUrl, qualities, playingLevel, error, scrubbing = false }: PlaybackAnalyticsOptions
+) {
+  const sessionRef = useRef<AnalyticsSession | null>(null);
+  const scrubbingRef = useRef(scrubbing);
+  scrubbingRef.current = scrubbing;
+  const sourceUrlRef = useRef(sourceUrl);
+  const previousLevelRef = useRef(-1);
+
+  useEffect(() => {
+    sourceUrlRef.current = sourceUrl;
+    sessionRef.current?.setSource(sourceUrl);
+  }, [sourceUrl]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !sink) return;
+
+    const session = createAnalyticsSession(sink);
+    sessionRef.current = session;
+    session.setSource(sourceUrlRef.current);
+
+    const startedAt = performance.now();
+    let hasFirstFrame = false;
+    let hasPlayed = false;
+    let lastPosition = video.currentTime;
+    let seekFrom: number | null = null;
+    let rebufferStartedAt: number | null = null;
+    let rebufferCount = 0;
+    let rebufferDuration = 0;
+    let playingSince: number | null = null;
+    let watchTime = 0;
+
+    const currentWatchTime = () => watchTime + (playingSince !== null ? performance.now() - playingSince : 0);
+
+    const stopWatching = () => {
+      if (playingSince === null) return;
+      watchTime += performance.now() - playingSince;
+      playingSince = null;
+    };
+
+    session.track('session_start', video.currentTime, {
+      userAgent: navigator.userAgent,
+      referrer: document.referrer || undefined,
+    });
+
+    const handleLoadedData = () => {
+      if (hasFirstFrame) return;
+      hasFirstFrame = true;
+      session.track('first_frame', video.currentTime, { timeToFirstFrame: roundSeconds(performance.now() - startedAt) });
+    };
+
+    const handlePlay = () => session.track('play', video.currentTime);
+
+    const handlePause = () => {
+      stopWatching();
+      session.track('pause', video.currentTime, { ended: video.ended });
+    };
+
+    const handlePlaying = () => {
+      hasPlayed = true;
+      playingSince = performance.now();
+      if (rebufferStartedAt === null) return;
+      const duration = performance.now() - rebufferStartedAt;
+      rebufferStartedAt = null;
+      rebufferCount += 1;
+      rebufferDuration += duration;
+      session.track('rebuffer', video.currentTime, { duration: roundSeconds(duration), count: rebufferCount });
+    };
+
+    const handleWaiting = () => {
+      stopWatching();
+      // Buffering right after a seek is expected, not a rebuffer
+      if (!hasPlayed || video.seeking || rebufferStartedAt !== null) return;
+      rebufferStartedAt = performance.now();
+    };
+
+    const handleSeeking = () => {
+      if (seekFrom === null) seekFrom = lastPosition;
+    };
+
+    const handleSeeked = () => {
+      if (scrubbingRef.current) return;
+      session.track('seek', video.currentTime, { from: seekFrom ?? lastPosition, to: video.currentTime });
+      seekFrom = null;
+      lastPosition = video.currentTime;
+    };
+
+    const handleTimeUpdate = () => {
+      if (!video.seeking) lastPosition = video.currentTime;
+    };
+
+    const handlePageHide = () => {
+      session.track('watch_time', video.currentTime, { watchTime: roundSeconds(currentWatchTime()) });
+      session.flush();
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') handlePageHide();
+    };
+
+    video.addEventListener('loadeddata', handleLoadedData);
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('pause', handlePause);
+    video.addEventListener('playing', handlePlaying);
+    video.addEventListener('waiting', handleWaiting);
+    video.addEventListener('seeking', handleSeeking);
+    video.addEventListener('seeked', handleSeeked);
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    window.addEventListener('pagehide', handlePageHide);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    const watchTimeIntervalId = window.setInterval(() => {
+      if (playingSince === null) return;
+      session.track('watch_time', video.currentTime, { watchTime: roundSeconds(currentWatchTime()) });
+    }, WATCH_TIME_INTERVAL);
+
+    return () => {
+      video.removeEventListener('loadeddata', handleLoadedData);
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('pause', handlePause);
+      video.removeEventListener('playing', handlePlaying);
+      video.removeEventListener('waiting', handleWaiting);
+      video.removeEventListener('seeking', handleSeeking);
+      video.removeEventListener('seeked', handleSeeked);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      window.removeEventListener('pagehide', handlePageHide);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.clearInterval(watchTimeIntervalId);
+
+      session.track('session_end', video.currentTime, {
+        watchTime: roundSeconds(currentWatchTime()),
+        rebufferCount,
+        rebufferDuration: roundSeconds(rebufferDuration),
+      });
+      session.destroy();
+      sessionRef.current = null;
+    };
+  }, [videoRef, sink]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const quality = qualities.find((item) => item.level === playingLevel);
+    if (!quality) previousLevelRef.current = -1;
+    if (!video || !quality || quality.level === previousLevelRef.current) return;
+    sessionRef.current?.track('quality_switch', video.currentTime, {
+      from: previousLevelRef.current,
+      level: quality.level,
+      height: quality.height,
+      bitrate: quality.bitrate,
+    });
+    previousLevelRef.current = quality.level;
+  }, [videoRef, qualities, playingLevel]);
+
+  useEffect(() => {
+    if (!error) return;
+    sessionRef.current?.track('error', videoRef.current?.currentTime ?? 0, {
+      type: error.type,
+      details: error.details,
+      message: error.message,
+    });
+  }, [videoRef, error]);
+}
@@ -0,0 +1,133 @@
+import { RefObject, useEffect, useRef, useState } from 'react';
+import { getBufferAhead } from '@/lib/player/stats';
+import type { PlaybackEngine, QualityLevel } from '@/lib/player/types';
+
+const SAMPLE_INTERVAL = 1000;
+const MAX_SAMPLES = 600;
+
+export interface TimelineSample {
+  /** Seconds since the player mounted */
+  t: number;
+  buffer: number;
+  /** Mbps */
+  bandwidth: number | null;
+  /** Mbps of the rendition being played */
+  bitrate: number | null;
+}
+
+export interface TimelineStall {
+  start: number;
+  end: number | null;
+}
+
+export interface TimelineLevelSwitch {
+  t: number;
+  level: number;
+  height: number;
+  bitrate: number | null;
+  bandwidth: number | null;
+  buffer: number;
+}
+
+export interface PlaybackTimeline {
+  samples: TimelineSample[];
+  stalls: TimelineStall[];
+  switches: TimelineLevelSwitch[];
+}
+
+const secondsSince = (start: number) => Math.round((performance.now() - start) / 100) / 10;
+
+const toMbps = (bitsPerSecond?: number) => (bitsPerSecond ? Math.round(bitsPerSecond / 10_000) / 100 : null);
+
+/**
+ * Records buffer, bandwidth, bitrate, stalls and rendition switches within the window
+ * covered by the last `MAX_SAMPLES` samples, so long sessions stay bounded.
+ * Recording always runs; React state is only refreshed while `enabled`, so a closed
+ * diagnostics panel costs no re-renders.
+ */
+export function usePlaybackTimeline(
+  videoRef: RefObject<HTMLVideoElement>,
+  engineRef: RefObject<PlaybackEngine | null>,
+  qualities: QualityLevel[],
+  playingLevel: number,
+  enabled: boolean
+) {
+  const startedAtRef = useRef(performance.now());
+  const timelineRef = useRef<PlaybackTimeline>({ samples: [], stalls: [], switches: [] });
+  const playingQualityRef = useRef<QualityLevel | undefined>();
+  const [timeline, setTimeline] = useState<PlaybackTimeline>(timelineRef.current);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const quality = qualities.find((item) => item.level === playingLevel);
+    playingQualityRef.current = quality;
+    if (!video || !quality) return;
+
+    const current = timelineRef.current;
+    timelineRef.current = {
+      ...current,
+      switches: [...current.switches, {
+        t: secondsSince(startedAtRef.current),
+        level: quality.level,
+        height: quality.height,
+        bitrate: toMbps(quality.bitrate),
+        bandwidth: toMbps(engineRef.current?.getStats?.().bandwidthEstimate),
+        buffer: getBufferAhead(video),
+      }],
+    };
+  }, [videoRef, engineRef, qualities, playingLevel]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handleWaiting = () => {
+      const current = timelineRef.current;
+      const last = current.stalls[current.stalls.length - 1];
+      if (last && last.end === null) return;
+      timelineRef.current = { ...current, stalls: [...current.stalls, { start: secondsSince(startedAtRef.current), end: null }] };
+    };
+
+    const handlePlaying = () => {
+      const current = timelineRef.current;
+      const last = current.stalls[current.stalls.length - 1];
+      if (!last || last.end !== null) return;
+      timelineRef.current = { ...current, stalls: [...current.stalls.slice(0, -1), { ...last, end: secondsSince(startedAtRef.current) }] };
+    };
+
+    const sample = () => {
+      const current = timelineRef.current;
+      const next: TimelineSample = {
+        t: secondsSince(startedAtRef.current),
+        buffer: Math.round(getBufferAhead(video) * 100) / 100,
+        bandwidth: toMbps(engineRef.current?.getStats?.().bandwidthEstimate),
+        bitrate: toMbps(playingQualityRef.current?.bitrate),
+      };
+      const samples = [...current.samples, next].slice(-MAX_SAMPLES);
+      const windowStart = samples[0].t;
+      timelineRef.current = {
+        samples,
+        stalls: current.stalls.filter((stall) => stall.end === null || stall.end >= windowStart),
+        switches: current.switches.filter((levelSwitch) => levelSwitch.t >= windowStart),
+      };
+    };
+
+    video.addEventListener('waiting', handleWaiting);
+    video.addEventListener('playing', handlePlaying);
+    const intervalId = window.setInterval(sample, SAMPLE_INTERVAL);
+    return () => {
+      video.removeEventListener('waiting', handleWaiting);
+      video.removeEventListener('playing', handlePlaying);
+      window.clearInterval(intervalId);
+    };
+  }, [videoRef, engineRef]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    setTimeline(timelineRef.current);
+    const intervalId = window.setInterval(() => setTimeline(timelineRef.current), SAMPLE_INTERVAL);
+    return () => window.clearInterval(intervalId);
+  }, [enabled]);
+
+  return timeline;
+}
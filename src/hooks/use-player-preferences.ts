@@ -0,0 +1,16 @@
+import { useCallback, useState } from 'react';
+import { loadPreferences, updatePreferences, type PlayerPreferences } from '@/lib/player/preferences';
+
+/**
+ * Preferences saved by earlier sessions, read once on mount, and a setter that records new
+ * choices. With `enabled` false nothing is read or written.
+ */
+export function usePlayerPreferences(enabled: boolean) {
+  const [preferences] = useState<PlayerPreferences>(() => (enabled ? loadPreferences() : {}));
+
+  const savePreferences = useCallback((changes: Partial<PlayerPreferences>) => {
+    if (enabled) updatePreferences(changes);
+  }, [enabled]);
+
+  return { preferences, savePreferences };
+}
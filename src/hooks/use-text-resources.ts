@@ -0,0 +1,58 @@
+import { useEffect, useRef, useState } from 'react';
+import { toast } from '@/hooks/use-toast';
+import { fetchText } from '@/lib/player/source';
+
+interface TextResourceOptions<R, T> {
+  /** Turns a fetched file into its contents; throwing reports the file as unusable */
+  parse: (text: string, request: R, index: number, signal: AbortSignal) => T | Promise<T>;
+  /** Toast title for files that fail to load; failures stay quiet without one */
+  errorTitle?: string;
+  /** Names the file in the toast, e.g. by its track label */
+  describe?: (request: R, index: number) => string;
+}
+
+/**
+ * Fetches and parses a sidecar text file per request. Results line up with `requests` and stay
+ * undefined while loading or after a failure; a changed request list starts over.
+ */
+export function useTextResources<R extends { url: string }, T>(
+  requests: R[],
+  options: TextResourceOptions<R, T>
+) {
+  const [results, setResults] = useState<(T | undefined)[]>([]);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const requestsKey = JSON.stringify(requests);
+
+  useEffect(() => {
+    const list: R[] = JSON.parse(requestsKey);
+    const controller = new AbortController();
+    setResults([]);
+
+    list.forEach((request, index) => {
+      fetchText(request.url, controller.signal)
+        .then((text) => optionsRef.current.parse(text, request, index, controller.signal))
+        .then((result) => {
+          if (controller.signal.aborted) return;
+          setResults((current) => {
+            const next = [...current];
+            next[index] = result;
+            return next;
+          });
+        })
+        .catch((error: Error) => {
+          const { errorTitle, describe } = optionsRef.current;
+          if (controller.signal.aborted || !errorTitle) return;
+          toast({
+            variant: 'destructive',
+            title: errorTitle,
+            description: describe ? `${describe(request, index)}: ${error.message}` : error.message,
+          });
+        });
+    });
+
+    return () => controller.abort();
+  }, [requestsKey]);
+
+  return results;
+}
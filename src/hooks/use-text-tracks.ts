@@ -0,0 +1,101 @@
+import { RefObject, useCallback, useEffect, useMemo, useState } from 'react';
+import type { PlaybackEngine } from '@/lib/player/types';
+import {
+  getCueLines,
+  getTextTrackId,
+  listSubtitleTracks,
+  toSubtitleTrackOption,
+  type ExternalSubtitleTrack,
+  type SubtitleTrackOption,
+} from '@/lib/player/text-tracks';
+
+const setLinesIfChanged = (setCueLines: (update: (current: string[]) => string[]) => void, lines: string[]) => {
+  setCueLines((current) => (current.join('\n') === lines.join('\n') ? current : lines));
+};
+
+/**
+ * Lists the subtitle and caption TextTracks on the video element alongside sideloaded
+ * tracks, and exposes the cues of the selected one so the player can draw them itself
+ * instead of relying on `::cue`.
+ */
+export function useTextTracks(
+  videoRef: RefObject<HTMLVideoElement>,
+  engineRef: RefObject<PlaybackEngine | null>,
+  externalTracks: ExternalSubtitleTrack[] = []
+) {
+  const [nativeTracks, setNativeTracks] = useState<SubtitleTrackOption[]>([]);
+  const [activeTrackId, setActiveTrackId] = useState<string | null>(null);
+  const [cueLines, setCueLines] = useState<string[]>([]);
+
+  const tracks = useMemo<SubtitleTrackOption[]>(
+    () => [...nativeTracks, ...externalTracks],
+    [nativeTracks, externalTracks]
+  );
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const refresh = () => setNativeTracks(listSubtitleTracks(video).map(toSubtitleTrackOption));
+
+    refresh();
+    video.textTracks.addEventListener('addtrack', refresh);
+    video.textTracks.addEventListener('removetrack', refresh);
+    return () => {
+      video.textTracks.removeEventListener('addtrack', refresh);
+      video.textTracks.removeEventListener('removetrack', refresh);
+    };
+  }, [videoRef]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const textTracks = listSubtitleTracks(video);
+    const activeTrack = textTracks.find((track) => getTextTrackId(track) === activeTrackId) ?? null;
+    const externalTrack = externalTracks.find((track) => track.id === activeTrackId) ?? null;
+
+    // The engine may toggle track modes itself while switching, so ours are applied afterwards.
+    // 'hidden' keeps cues flowing without the browser's own rendering.
+    engineRef.current?.selectSubtitleTrack?.(activeTrack);
+    textTracks.forEach((track) => {
+      track.mode = track === activeTrack ? 'hidden' : 'disabled';
+    });
+
+    if (externalTrack) {
+      const updateExternalCues = () => {
+        const time = video.currentTime;
+        const lines = externalTrack.cues
+          .filter((cue) => cue.start <= time && time < cue.end)
+          .flatMap((cue) => cue.text.split('\n'));
+        setLinesIfChanged(setCueLines, lines);
+      };
+
+      updateExternalCues();
+      video.addEventListener('timeupdate', updateExternalCues);
+      video.addEventListener('seeked', updateExternalCues);
+      return () => {
+        video.removeEventListener('timeupdate', updateExternalCues);
+        video.removeEventListener('seeked', updateExternalCues);
+      };
+    }
+
+    if (!activeTrack) {
+      setCueLines([]);
+      return;
+    }
+
+    const handleCueChange = () => {
+      const activeCues = Array.from(activeTrack.activeCues ?? []);
+      setLinesIfChanged(setCueLines, activeCues.flatMap(getCueLines));
+    };
+
+    handleCueChange();
+    activeTrack.addEventListener('cuechange', handleCueChange);
+    return () => activeTrack.removeEventListener('cuechange', handleCueChange);
+  }, [videoRef, engineRef, activeTrackId, nativeTracks, externalTracks]);
+
+  const selectTrack = useCallback((id: string | null) => setActiveTrackId(id), []);
+
+  return { tracks, activeTrackId, selectTrack, cueLines };
+}
@@ -0,0 +1,40 @@
+import { useTextResources } from '@/hooks/use-text-resources';
+import { detectStreamType, fetchText } from '@/lib/player/source';
+import {
+  findImagePlaylistUrl,
+  parseImagePlaylist,
+  parseThumbnailVtt,
+  type ThumbnailCue,
+} from '@/lib/player/thumbnails';
+
+/** Accepts a storyboard WebVTT, an HLS image media playlist, or a multivariant playlist that references one */
+const parseThumbnails = async (text: string, url: string, signal: AbortSignal): Promise<ThumbnailCue[]> => {
+  if (!text.trimStart().startsWith('#EXTM3U')) return parseThumbnailVtt(text, url);
+
+  const imagePlaylistUrl = findImagePlaylistUrl(text, url);
+  if (!imagePlaylistUrl) return parseImagePlaylist(text, url);
+  return parseImagePlaylist(await fetchText(imagePlaylistUrl, signal), imagePlaylistUrl);
+};
+
+const NO_CUES: ThumbnailCue[] = [];
+
+/**
+ * Seek-bar preview frames from `thumbnailsUrl`, or else from the image streams
+ * (EXT-X-IMAGE-STREAM-INF) of an HLS source.
+ */
+export function useThumbnails(thumbnailsUrl: string | undefined, sourceUrl: string | undefined, sourceType?: string) {
+  const isHls = !!sourceUrl && detectStreamType(sourceUrl, sourceType) === 'hls';
+  const url = thumbnailsUrl ?? (isHls ? sourceUrl : undefined);
+
+  const [cues] = useTextResources(url ? [{ url, explicit: !!thumbnailsUrl }] : [], {
+    parse: async (text, request, _index, signal) => {
+      const loaded = await parseThumbnails(text, request.url, signal);
+      if (loaded.length === 0 && request.explicit) throw new Error('No thumbnails found');
+      return [...loaded].sort((a, b) => a.start - b.start);
+    },
+    // Only complain about thumbnails that were asked for explicitly
+    errorTitle: thumbnailsUrl ? 'Could not load thumbnails' : undefined,
+  });
+
+  return cues ?? NO_CUES;
+}
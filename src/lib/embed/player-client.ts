@@ -0,0 +1,153 @@
+import {
+  createEmbedMessage,
+  isEmbedMessage,
+  isSupportedVersion,
+  type EmbedCommand,
+  type EmbedCommandMessage,
+  type EmbedEventMap,
+  type EmbedEventType,
+} from './protocol';
+import type { PlayerState } from '@/lib/player/types';
+
+interface EmbeddedPlayerOptions {
+  /** Origin the player iframe is served from; messages from anywhere else are ignored */
+  origin: string;
+  /** Milliseconds to wait for a command response */
+  timeout?: number;
+}
+
+type Listener<T extends EmbedEventType> = (data: EmbedEventMap[T]) => void;
+
+interface PendingCommand {
+  resolve: (state: PlayerState | undefined) => void;
+  reject: (error: Error) => void;
+  timeoutId: number;
+}
+
+const DEFAULT_TIMEOUT = 5000;
+
+/**
+ * Host-side wrapper around an `embed=true` player iframe.
+ *
+ * ```ts
+ * const player = new EmbeddedPlayer(iframe, { origin: 'https://player.example.com' });
+ * await player.ready;
+ * await player.seek(30);
+ * player.on('ended', () => console.log('done'));
+ * ```
+ */
+export class EmbeddedPlayer {
+  readonly ready: Promise<void>;
+
+  private readonly iframe: HTMLIFrameElement;
+  private readonly origin: string;
+  private readonly timeout: number;
+  private readonly listeners = new Map<EmbedEventType, Set<Listener<EmbedEventType>>>();
+  private readonly pending = new Map<number, PendingCommand>();
+  private nextId = 1;
+  private resolveReady!: () => void;
+
+  constructor(iframe: HTMLIFrameElement, { origin, timeout = DEFAULT_TIMEOUT }: EmbeddedPlayerOptions) {
+    this.iframe = iframe;
+    this.origin = origin;
+    this.timeout = timeout;
+    this.ready = new Promise((resolve) => {
+      this.resolveReady = resolve;
+    });
+    window.addEventListener('message', this.handleMessage);
+    // Introduces this host to a player that may already be ready; it answers with "ready" again
+    this.getState().catch(() => {});
+  }
+
+  play() {
+    return this.send({ type: 'play' }).then(() => undefined);
+  }
+
+  pause() {
+    return this.send({ type: 'pause' }).then(() => undefined);
+  }
+
+  seek(time: number) {
+    return this.send({ type: 'seek', time }).then(() => undefined);
+  }
+
+  load(url: string) {
+    return this.send({ type: 'load', url }).then(() => undefined);
+  }
+
+  setVolume(volume: number) {
+    return this.send({ type: 'setVolume', volume }).then(() => undefined);
+  }
+
+  /** -1 turns adaptive bitrate back on */
+  setQuality(level: number) {
+    return this.send({ type: 'setQuality', level }).then(() => undefined);
+  }
+
+  setRate(rate: number) {
+    return this.send({ type: 'setRate', rate }).then(() => undefined);
+  }
+
+  getState() {
+    return this.send({ type: 'getState' }) as Promise<PlayerState>;
+  }
+
+  /** Returns a function that removes the listener */
+  on<T extends EmbedEventType>(event: T, listener: Listener<T>) {
+    const set = this.listeners.get(event) ?? new Set();
+    set.add(listener as Listener<EmbedEventType>);
+    this.listeners.set(event, set);
+    return () => {
+      set.delete(listener as Listener<EmbedEventType>);
+    };
+  }
+
+  destroy() {
+    window.removeEventListener('message', this.handleMessage);
+    this.pending.forEach(({ reject, timeoutId }) => {
+      window.clearTimeout(timeoutId);
+      reject(new Error('Player destroyed'));
+    });
+    this.pending.clear();
+    this.listeners.clear();
+  }
+
+  private send(command: EmbedCommand) {
+    const id = this.nextId++;
+    return new Promise<PlayerState | undefined>((resolve, reject) => {
+      const timeoutId = window.setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Player did not answer "${command.type}" within ${this.timeout}ms`));
+      }, this.timeout);
+      this.pending.set(id, { resolve, reject, timeoutId });
+      this.iframe.contentWindow?.postMessage(
+        createEmbedMessage<EmbedCommandMessage>({ kind: 'command', id, command }),
+        this.origin
+      );
+    });
+  }
+
+  private handleMessage = (e: MessageEvent) => {
+    if (e.origin !== this.origin || e.source !== this.iframe.contentWindow) return;
+    if (!isEmbedMessage(e.data) || !isSupportedVersion(e.data.version)) return;
+    const message = e.data;
+
+    if (message.kind === 'response') {
+      const pending = this.pending.get(message.id);
+      if (!pending) return;
+      this.pending.delete(message.id);
+      window.clearTimeout(pending.timeoutId);
+      if (message.ok) {
+        pending.resolve(message.state);
+      } else {
+        pending.reject(new Error(message.error ?? 'Command failed'));
+      }
+      return;
+    }
+
+    if (message.kind === 'event') {
+      if (message.event === 'ready') this.resolveReady();
+      this.listeners.get(message.event)?.forEach((listener) => listener(message.data));
+    }
+  };
+}
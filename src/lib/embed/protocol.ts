@@ -0,0 +1,79 @@
+import type { PlayerError, PlayerState } from '@/lib/player/types';
+
+export const EMBED_PROTOCOL = 'swiftstreamer';
+export const EMBED_PROTOCOL_VERSION = 1;
+
+export type EmbedCommand =
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'seek'; time: number }
+  | { type: 'load'; url: string }
+  | { type: 'setVolume'; volume: number }
+  | { type: 'setQuality'; level: number }
+  | { type: 'setRate'; rate: number }
+  | { type: 'getState' };
+
+export interface EmbedEventMap {
+  ready: undefined;
+  timeupdate: { currentTime: number; duration: number };
+  ended: undefined;
+  error: PlayerError;
+  state: PlayerState;
+}
+
+export type EmbedEventType = keyof EmbedEventMap;
+
+interface EmbedEnvelope {
+  protocol: typeof EMBED_PROTOCOL;
+  version: number;
+}
+
+/** Host → player. `id` pairs the command with its response */
+export interface EmbedCommandMessage extends EmbedEnvelope {
+  kind: 'command';
+  id: number;
+  command: EmbedCommand;
+}
+
+/** Player → host, answering the command with the same `id` */
+export interface EmbedResponseMessage extends EmbedEnvelope {
+  kind: 'response';
+  id: number;
+  ok: boolean;
+  error?: string;
+  state?: PlayerState;
+}
+
+/** Player → host, sent unprompted */
+export interface EmbedEventMessage<T extends EmbedEventType = EmbedEventType> extends EmbedEnvelope {
+  kind: 'event';
+  event: T;
+  data: EmbedEventMap[T];
+}
+
+export type EmbedMessage = EmbedCommandMessage | EmbedResponseMessage | EmbedEventMessage;
+
+export const isEmbedMessage = (data: unknown): data is EmbedMessage =>
+  typeof data === 'object' &&
+  data !== null &&
+  (data as EmbedEnvelope).protocol === EMBED_PROTOCOL &&
+  typeof (data as EmbedEnvelope).version === 'number';
+
+/** Major protocol versions are incompatible; newer minor additions are ignored by older players */
+export const isSupportedVersion = (version: number) => Math.floor(version) === EMBED_PROTOCOL_VERSION;
+
+/**
+ * Checks an origin against allowlist entries: exact origins, `*` for any, or
+ * `https://*.example.com` for subdomains.
+ */
+export const isOriginAllowed = (origin: string, allowlist: string[]) =>
+  allowlist.some((entry) => {
+    if (entry === '*') return true;
+    if (!entry.includes('*')) return entry === origin;
+    const [scheme, host] = entry.split('://*.');
+    if (!host) return false;
+    return origin.startsWith(`${scheme}://`) && origin.endsWith(`.${host}`);
+  });
+
+export const createEmbedMessage = <T extends EmbedMessage>(message: Omit<T, 'protocol' | 'version'>) =>
+  ({ protocol: EMBED_PROTOCOL, version: EMBED_PROTOCOL_VERSION, ...message }) as T;
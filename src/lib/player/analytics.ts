@@ -0,0 +1,113 @@
+export type AnalyticsEventType =
+  | 'session_start'
+  | 'first_frame'
+  | 'play'
+  | 'pause'
+  | 'seek'
+  | 'quality_switch'
+  | 'rebuffer'
+  | 'error'
+  | 'watch_time'
+  | 'session_end';
+
+export interface AnalyticsEvent {
+  type: AnalyticsEventType;
+  sessionId: string;
+  /** Epoch milliseconds */
+  timestamp: number;
+  /** Playhead position in seconds when the event happened */
+  position: number;
+  source?: string;
+  data?: Record<string, unknown>;
+}
+
+/** Receives batches of events; implement it to forward analytics anywhere */
+export interface AnalyticsSink {
+  send: (events: AnalyticsEvent[]) => void;
+}
+
+export interface AnalyticsSession {
+  id: string;
+  track: (type: AnalyticsEventType, position: number, data?: Record<string, unknown>) => void;
+  setSource: (source: string | undefined) => void;
+  flush: () => void;
+  destroy: () => void;
+}
+
+interface AnalyticsSessionOptions {
+  /** Events queued before a batch is sent right away */
+  batchSize?: number;
+  /** Milliseconds between batch sends */
+  flushInterval?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_FLUSH_INTERVAL = 10000;
+
+const createSessionId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/** Posts batches as JSON with `navigator.sendBeacon` so they survive the page unloading */
+export const createBeaconSink = (endpoint: string): AnalyticsSink => ({
+  send: (events) => {
+    const body = JSON.stringify({ events });
+    if (navigator.sendBeacon?.(endpoint, new Blob([body], { type: 'application/json' }))) return;
+    fetch(endpoint, {
+      method: 'POST',
+      body,
+      headers: { 'Content-Type': 'application/json' },
+      keepalive: true,
+    }).catch(() => {});
+  },
+});
+
+export const createConsoleSink = (): AnalyticsSink => ({
+  send: (events) => events.forEach((event) => console.info('[analytics]', event.type, event)),
+});
+
+export const createMemorySink = (): AnalyticsSink & { events: AnalyticsEvent[] } => {
+  const events: AnalyticsEvent[] = [];
+  return {
+    events,
+    send: (batch) => {
+      events.push(...batch);
+    },
+  };
+};
+
+export const createAnalyticsSession = (
+  sink: AnalyticsSink,
+  options: AnalyticsSessionOptions = {}
+): AnalyticsSession => {
+  const { batchSize = DEFAULT_BATCH_SIZE, flushInterval = DEFAULT_FLUSH_INTERVAL } = options;
+  const id = createSessionId();
+  let source: string | undefined;
+  let queue: AnalyticsEvent[] = [];
+
+  const flush = () => {
+    if (queue.length === 0) return;
+    const batch = queue;
+    queue = [];
+    sink.send(batch);
+  };
+
+  const intervalId = window.setInterval(flush, flushInterval);
+
+  return {
+    id,
+    track: (type, position, data) => {
+      queue.push({ type, sessionId: id, timestamp: Date.now(), position, source, data });
+      if (queue.length >= batchSize) flush();
+    },
+    setSource: (next) => {
+      source = next;
+    },
+    flush,
+    destroy: () => {
+      window.clearInterval(intervalId);
+      flush();
+    },
+  };
+};
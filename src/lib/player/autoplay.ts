@@ -0,0 +1,28 @@
+/** `failed` covers errors other than the autoplay policy, e.g. playback aborted by a source change */
+export type AutoplayResult = 'playing' | 'muted' | 'blocked' | 'failed';
+
+const isAutoplayBlocked = (error: unknown) => error instanceof DOMException && error.name === 'NotAllowedError';
+
+/**
+ * Starts playback without a user gesture. Browsers that refuse audible autoplay usually
+ * allow it muted, so a blocked attempt is retried muted. When that fails too the original
+ * muted state is restored, ready for the viewer to press play.
+ */
+export const playWithMutedFallback = async (video: HTMLVideoElement): Promise<AutoplayResult> => {
+  try {
+    await video.play();
+    return 'playing';
+  } catch (error) {
+    if (!isAutoplayBlocked(error)) return 'failed';
+    if (video.muted) return 'blocked';
+  }
+
+  video.muted = true;
+  try {
+    await video.play();
+    return 'muted';
+  } catch (error) {
+    video.muted = false;
+    return isAutoplayBlocked(error) ? 'blocked' : 'failed';
+  }
+};
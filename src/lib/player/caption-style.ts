@@ -0,0 +1,86 @@
+import type { CSSProperties } from 'react';
+
+export type CaptionFontFamily = 'sans' | 'serif' | 'mono' | 'casual' | 'smallCaps';
+export type CaptionEdgeStyle = 'none' | 'outline' | 'dropShadow' | 'raised' | 'depressed';
+export type CaptionPosition = 'bottom' | 'top';
+
+export interface CaptionStyle {
+  fontFamily: CaptionFontFamily;
+  /** Multiplier on the default caption size */
+  fontScale: number;
+  textColor: string;
+  backgroundOpacity: number;
+  edgeStyle: CaptionEdgeStyle;
+  position: CaptionPosition;
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontFamily: 'sans',
+  fontScale: 1,
+  textColor: '#ffffff',
+  backgroundOpacity: 0.75,
+  edgeStyle: 'none',
+  position: 'bottom',
+};
+
+export const CAPTION_FONT_FAMILIES: { value: CaptionFontFamily; label: string }[] = [
+  { value: 'sans', label: 'Sans' },
+  { value: 'serif', label: 'Serif' },
+  { value: 'mono', label: 'Mono' },
+  { value: 'casual', label: 'Casual' },
+  { value: 'smallCaps', label: 'Small caps' },
+];
+
+export const CAPTION_FONT_SCALES = [0.5, 0.75, 1, 1.5, 2];
+
+export const CAPTION_TEXT_COLORS = [
+  { value: '#ffffff', label: 'White' },
+  { value: '#ffff00', label: 'Yellow' },
+  { value: '#00ff00', label: 'Green' },
+  { value: '#00ffff', label: 'Cyan' },
+  { value: '#0000ff', label: 'Blue' },
+  { value: '#ff00ff', label: 'Magenta' },
+  { value: '#ff0000', label: 'Red' },
+  { value: '#000000', label: 'Black' },
+];
+
+export const CAPTION_BACKGROUND_OPACITIES = [0, 0.25, 0.5, 0.75, 1];
+
+export const CAPTION_EDGE_STYLES: { value: CaptionEdgeStyle; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'outline', label: 'Outline' },
+  { value: 'dropShadow', label: 'Shadow' },
+  { value: 'raised', label: 'Raised' },
+  { value: 'depressed', label: 'Depressed' },
+];
+
+export const CAPTION_POSITIONS: { value: CaptionPosition; label: string }[] = [
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'top', label: 'Top' },
+];
+
+const FONT_FAMILIES: Record<CaptionFontFamily, string> = {
+  sans: 'ui-sans-serif, system-ui, sans-serif',
+  serif: 'ui-serif, Georgia, serif',
+  mono: 'ui-monospace, Menlo, monospace',
+  casual: '"Comic Sans MS", "Comic Neue", cursive',
+  smallCaps: 'ui-sans-serif, system-ui, sans-serif',
+};
+
+const TEXT_SHADOWS: Record<CaptionEdgeStyle, string> = {
+  none: 'none',
+  outline: '-1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000, 1px 1px 0 #000',
+  dropShadow: '2px 2px 3px rgba(0, 0, 0, 0.9)',
+  raised: '-1px -1px 0 rgba(255, 255, 255, 0.5), 1px 1px 0 rgba(0, 0, 0, 0.9)',
+  depressed: '1px 1px 0 rgba(255, 255, 255, 0.5), -1px -1px 0 rgba(0, 0, 0, 0.9)',
+};
+
+/** The size scales the parent's font size, so the caption container keeps its responsive base */
+export const getCaptionTextStyle = (style: CaptionStyle): CSSProperties => ({
+  fontFamily: FONT_FAMILIES[style.fontFamily],
+  fontVariant: style.fontFamily === 'smallCaps' ? 'small-caps' : undefined,
+  fontSize: `calc(1em * ${style.fontScale})`,
+  color: style.textColor,
+  backgroundColor: `rgba(0, 0, 0, ${style.backgroundOpacity})`,
+  textShadow: TEXT_SHADOWS[style.edgeStyle],
+});
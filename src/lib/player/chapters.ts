@@ -0,0 +1,96 @@
+import type { DateRange } from 'hls.js';
+import { parseSubtitles } from './subtitle-parsers';
+import { findLastAtOrBefore, parseTimeString } from './time';
+
+export interface Chapter {
+  start: number;
+  /** Start of the next chapter, or the end of the video for the last one */
+  end: number;
+  title: string;
+}
+
+/** A chapter as read from its source, before missing ends are filled in */
+export type ChapterEntry = Omit<Chapter, 'end'> & { end?: number };
+
+/** WebVTT chapters: each cue spans one chapter and its text is the title */
+export const parseChapterVtt = (text: string): ChapterEntry[] => {
+  return parseSubtitles(text, 'vtt').map((cue) => ({
+    start: cue.start,
+    end: cue.end,
+    title: cue.text.trim(),
+  }));
+};
+
+const toSeconds = (value: unknown) => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string') return parseTimeString(value);
+  return null;
+};
+
+/**
+ * JSON sidecar: an array (or `{ "chapters": [...] }`) of `{ start, end?, title }`, where times
+ * are seconds or strings such as "1:30". `startTime`/`endTime` are accepted as aliases.
+ */
+export const parseChapterJson = (json: unknown): ChapterEntry[] => {
+  const list = Array.isArray(json)
+    ? json
+    : (json as { chapters?: unknown } | null)?.chapters;
+  if (!Array.isArray(list)) throw new Error('Expected an array of chapters');
+
+  return list.flatMap((item: Record<string, unknown>) => {
+    const start = toSeconds(item?.start ?? item?.startTime);
+    const end = toSeconds(item?.end ?? item?.endTime);
+    if (start === null) return [];
+    return [{
+      start,
+      end: end ?? undefined,
+      title: typeof item.title === 'string' ? item.title : '',
+    }];
+  });
+};
+
+const CHAPTER_TITLE_ATTRIBUTES = ['X-TITLE', 'X-CHAPTER-TITLE', 'X-COM-APPLE-HLS-CHAPTER-TITLE'];
+
+/**
+ * EXT-X-DATERANGE chapters from hls.js. Ranges count as chapters when their CLASS mentions
+ * "chapter" or they carry a title attribute; dates are mapped onto media time through the
+ * first fragment with an EXT-X-PROGRAM-DATE-TIME.
+ */
+export const dateRangesToChapters = (
+  dateRanges: Record<string, DateRange>,
+  anchor: { programDateTime: number; start: number } | null
+): ChapterEntry[] => {
+  if (!anchor) return [];
+
+  return Object.values(dateRanges).flatMap((range) => {
+    const title = CHAPTER_TITLE_ATTRIBUTES.map((name) => range.attr[name]).find(Boolean);
+    if (!title && !/chapter/i.test(range.class ?? '')) return [];
+
+    const start = anchor.start + (range.startDate.getTime() - anchor.programDateTime) / 1000;
+    const end = range.endDate
+      ? anchor.start + (range.endDate.getTime() - anchor.programDateTime) / 1000
+      : undefined;
+    return [{ start, end, title: title ?? range.id }];
+  });
+};
+
+/** Sorts chapters and closes each one at the next start, or at `duration` for the last */
+export const normalizeChapters = (entries: ChapterEntry[], duration: number): Chapter[] => {
+  const sorted = [...entries]
+    .filter((entry) => entry.start >= 0 && (!duration || entry.start < duration))
+    .sort((a, b) => a.start - b.start);
+
+  return sorted.map((entry, index) => {
+    const next = sorted[index + 1];
+    return {
+      start: entry.start,
+      end: next ? next.start : duration || entry.end || entry.start,
+      title: entry.title || `Chapter ${index + 1}`,
+    };
+  });
+};
+
+/** Index of the chapter playing at `time`, or -1 before the first one */
+export const findChapterIndex = (chapters: Chapter[], time: number) => {
+  return findLastAtOrBefore(chapters, time, (chapter) => chapter.start);
+};
@@ -0,0 +1,21 @@
+/** Converts "#rgb" or "#rrggbb" to the "H S% L%" channel format used by the theme's CSS variables */
+export const hexToHslChannels = (hex: string) => {
+  const digits = hex.replace(/^#/, '');
+  const full = digits.length === 3 ? digits.split('').map((digit) => digit + digit).join('') : digits;
+  const [r, g, b] = [0, 2, 4].map((offset) => parseInt(full.slice(offset, offset + 2), 16) / 255);
+  if ([r, g, b].some(Number.isNaN)) return null;
+
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return `0 0% ${Math.round(lightness * 100)}%`;
+
+  const saturation = delta / (1 - Math.abs(2 * lightness - 1));
+  const hue =
+    max === r ? ((g - b) / delta) % 6
+    : max === g ? (b - r) / delta + 2
+    : (r - g) / delta + 4;
+
+  return `${Math.round((hue * 60 + 360) % 360)} ${Math.round(saturation * 100)}% ${Math.round(lightness * 100)}%`;
+};
@@ -0,0 +1,196 @@
+import { MediaPlayer } from 'dashjs';
+import type {
+  Event as DashEvent,
+  FragmentRequest,
+  MediaInfo,
+  MediaPlayerClass,
+  MediaPlayerErrorEvent,
+  MediaPlayerSettingClass,
+} from 'dashjs';
+import { getLanguageName } from './language';
+import { isWithinCap } from './quality';
+import type { AudioTrackOption, EngineHandlers, EngineOptions, EngineStats, PlaybackEngine } from './types';
+
+// dash.js emits this event but ships no type for it
+interface FragmentLoadingStartedEvent extends DashEvent {
+  request: FragmentRequest;
+}
+
+const { errors } = MediaPlayer;
+
+// Errors playback cannot get past: the manifest, segments that exhausted their retries, or
+// media the browser cannot decode. Everything else on the ERROR event (time sync, timed-text
+// parsing, ...) is recoverable, like hls.js errors without `fatal`.
+const FATAL_ERROR_CODES = new Set<number>([
+  errors.MANIFEST_LOADER_PARSING_FAILURE_ERROR_CODE,
+  errors.MANIFEST_LOADER_LOADING_FAILURE_ERROR_CODE,
+  errors.MANIFEST_ERROR_ID_PARSE_CODE,
+  errors.MANIFEST_ERROR_ID_NOSTREAMS_CODE,
+  errors.MANIFEST_ERROR_ID_MULTIPLEXED_CODE,
+  errors.DOWNLOAD_ERROR_ID_MANIFEST_CODE,
+  errors.DOWNLOAD_ERROR_ID_CONTENT_CODE,
+  errors.DOWNLOAD_ERROR_ID_INITIALIZATION_CODE,
+  errors.FRAGMENT_LOADER_LOADING_FAILURE_ERROR_CODE,
+  errors.APPEND_ERROR_CODE,
+  errors.CAPABILITY_MEDIASOURCE_ERROR_CODE,
+  errors.MEDIASOURCE_TYPE_UNSUPPORTED_CODE,
+]);
+
+const getCodec = (track: MediaInfo | null) => track?.codec?.replace(/^.*codecs="?([^"]+)"?$/, '$1');
+
+const toAudioTrackOption = (track: MediaInfo, index: number): AudioTrackOption => ({
+  id: index,
+  label: track.labels?.[0]?.text || getLanguageName(track.lang ?? '') || `Track ${index + 1}`,
+  language: track.lang ?? '',
+  kind: track.roles?.includes('description')
+    ? 'description'
+    : track.roles?.includes('commentary') ? 'commentary' : 'main',
+});
+
+export interface DashEngine extends PlaybackEngine {
+  readonly name: 'dash.js';
+  readonly player: MediaPlayerClass;
+}
+
+export const createDashEngine = (
+  video: HTMLVideoElement,
+  url: string,
+  handlers: EngineHandlers,
+  options: EngineOptions = {}
+): DashEngine => {
+  const player = MediaPlayer().create();
+  let fragment: EngineStats['fragment'];
+  const statsListeners = new Set<() => void>();
+  const notifyStats = () => statsListeners.forEach((listener) => listener());
+
+  const setAutoSwitch = (enabled: boolean) => {
+    player.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: enabled } } } });
+  };
+
+  const reportAudioTracks = () => {
+    const tracks = player.getTracksFor('audio');
+    const current = player.getCurrentTrackFor('audio');
+    handlers.onAudioTracks(
+      tracks.map(toAudioTrackOption),
+      current ? tracks.findIndex((track) => track.id === current.id && track.index === current.index) : -1
+    );
+  };
+
+  player.on(MediaPlayer.events.TRACK_CHANGE_RENDERED, reportAudioTracks);
+
+  player.on(MediaPlayer.events.QUALITY_CHANGE_RENDERED, (e) => {
+    if (e.mediaType === 'video') {
+      handlers.onLevelSwitched(e.newQuality);
+    }
+  });
+
+  player.on(MediaPlayer.events.FRAGMENT_LOADING_STARTED, ({ request }: FragmentLoadingStartedEvent) => {
+    if (request.mediaType !== 'video' || !request.url) return;
+    fragment = { url: request.url, sequence: request.index, level: request.quality, loading: true };
+    notifyStats();
+  });
+
+  player.on(MediaPlayer.events.FRAGMENT_LOADING_COMPLETED, (e) => {
+    if (e.request.mediaType !== 'video') return;
+    if (fragment?.url === e.request.url) {
+      fragment = { ...fragment, loading: false };
+    }
+    notifyStats();
+  });
+
+  player.on(MediaPlayer.events.STREAM_INITIALIZED, () => {
+    reportAudioTracks();
+    const codec = getCodec(player.getCurrentTrackFor('video'));
+    handlers.onQualities(player.getBitrateInfoListFor('video').map((info) => ({
+      height: info.height,
+      level: info.qualityIndex,
+      width: info.width,
+      bitrate: info.bitrate,
+      codec,
+    })));
+    handlers.onLevelSwitched(player.getQualityFor('video'));
+    handlers.onLiveChange(player.isDynamic());
+    handlers.onReady();
+  });
+
+  player.on(MediaPlayer.events.ERROR, (e) => {
+    const error = (e as MediaPlayerErrorEvent).error;
+    if (typeof error !== 'object' || !FATAL_ERROR_CODES.has(error.code)) return;
+    handlers.onFatalError({
+      type: 'dashError',
+      details: `${error.code}: ${error.message}`,
+      message: 'Failed to load video stream',
+    });
+  });
+
+  setAutoSwitch(true);
+  if (options.preferredAudioLanguage) {
+    player.setInitialMediaSettingsFor('audio', { lang: options.preferredAudioLanguage });
+  }
+  if (options.lowLatency) {
+    player.updateSettings({
+      streaming: {
+        delay: { liveDelay: options.targetLatency },
+        liveCatchup: { enabled: false },
+      },
+    });
+  }
+  if (options.maxBufferLength) {
+    player.updateSettings({
+      streaming: {
+        buffer: {
+          stableBufferTime: options.maxBufferLength,
+          bufferTimeAtTopQuality: options.maxBufferLength,
+          bufferTimeAtTopQualityLongForm: options.maxBufferLength,
+        },
+      },
+    });
+  }
+  player.initialize(video, url, false, options.startTime || undefined);
+
+  return {
+    name: 'dash.js',
+    player,
+    setQuality: (level) => {
+      if (level < 0) {
+        setAutoSwitch(true);
+        return;
+      }
+      setAutoSwitch(false);
+      player.setQualityFor('video', level);
+    },
+    setQualityCap: (cap) => {
+      let maxBitrate = -1;
+      const bitrates = cap ? player.getBitrateInfoListFor('video') : [];
+      if (cap && bitrates.length > 0) {
+        const allowed = bitrates.filter((info) => isWithinCap(info, cap)).map((info) => info.bitrate);
+        // dash.js caps by bitrate only, in kbps; the lowest representation stays reachable
+        maxBitrate = (allowed.length > 0 ? Math.max(...allowed) : Math.min(...bitrates.map((info) => info.bitrate))) / 1000;
+      }
+      const settings: MediaPlayerSettingClass = { streaming: { abr: { maxBitrate: { video: maxBitrate } } } };
+      player.updateSettings(settings);
+    },
+    getStats: () => {
+      const throughput = player.getAverageThroughput('video');
+      return {
+        bandwidthEstimate: Number.isFinite(throughput) && throughput > 0 ? throughput * 1000 : undefined,
+        videoCodec: getCodec(player.getCurrentTrackFor('video')),
+        audioCodec: getCodec(player.getCurrentTrackFor('audio')),
+        fragment,
+      };
+    },
+    subscribeStats: (listener) => {
+      statsListeners.add(listener);
+      return () => statsListeners.delete(listener);
+    },
+    setAudioTrack: (id) => {
+      const track = player.getTracksFor('audio')[id];
+      if (track) player.setCurrentTrack(track);
+    },
+    getLatency: () => (player.isDynamic() ? player.getCurrentLiveLatency() : null),
+    destroy: () => {
+      statsListeners.clear();
+      player.reset();
+    },
+  };
+};
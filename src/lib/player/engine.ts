@@ -0,0 +1,29 @@
+import Hls from 'hls.js';
+import { supportsMediaSource } from 'dashjs';
+import { createDashEngine } from './dash-engine';
+import { createHlsEngine } from './hls-engine';
+import { createNativeEngine } from './native-engine';
+import { canPlayHlsNatively } from './source';
+import type { EngineHandlers, EngineOptions, PlaybackEngine, StreamType } from './types';
+
+/**
+ * Picks the playback pipeline for a stream: hls.js or dash.js wherever Media Source
+ * Extensions are available, otherwise the browser's own `video.src` handling.
+ */
+export const createEngine = (
+  type: StreamType,
+  video: HTMLVideoElement,
+  url: string,
+  handlers: EngineHandlers,
+  options: EngineOptions = {}
+): PlaybackEngine | null => {
+  if (type === 'hls') {
+    if (Hls.isSupported()) return createHlsEngine(video, url, handlers, options);
+    if (canPlayHlsNatively(video)) return createNativeEngine(video, url, handlers, options);
+    return null;
+  }
+  if (type === 'dash') {
+    return supportsMediaSource() ? createDashEngine(video, url, handlers, options) : null;
+  }
+  return createNativeEngine(video, url, handlers, options);
+};
@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { EngineHandlers, PlaybackEngine } from './types';
+import { createFrameSampler } from './frame-sampler';
+
+const engine = vi.hoisted(() => ({
+  video: null as HTMLVideoElement | null,
+  handlers: null as EngineHandlers | null,
+}));
+
+vi.mock('./source', () => ({
+  resolveStreamType: () => Promise.resolve('hls'),
+}));
+
+vi.mock('./engine', () => ({
+  createEngine: (_type: string, video: HTMLVideoElement, _url: string, handlers: EngineHandlers): PlaybackEngine => {
+    engine.video = video;
+    engine.handlers = handlers;
+    return { name: 'hls.js', setQuality: () => {}, destroy: () => {} };
+  },
+}));
+
+const stubMedia = (video: HTMLVideoElement) => {
+  let duration = NaN;
+  const seeks: number[] = [];
+  Object.defineProperty(video, 'duration', { get: () => duration });
+  Object.defineProperty(video, 'currentTime', {
+    get: () => seeks[seeks.length - 1] ?? 0,
+    set: (time: number) => seeks.push(time),
+  });
+  return {
+    seeks,
+    setDuration: (value: number) => {
+      duration = value;
+      video.dispatchEvent(new Event('durationchange'));
+    },
+  };
+};
+
+describe('createFrameSampler', () => {
+  afterEach(() => {
+    engine.video = null;
+    engine.handlers = null;
+  });
+
+  it('waits for a finite duration when the engine is ready before the media element', async () => {
+    const sampler = createFrameSampler('https://example.com/stream.m3u8', undefined);
+    await vi.waitFor(() => expect(engine.handlers).not.toBeNull());
+    const media = stubMedia(engine.video as HTMLVideoElement);
+
+    engine.handlers?.onReady();
+    sampler.request(10);
+    expect(media.seeks).toEqual([]);
+
+    media.setDuration(100);
+    // 100 s at the 2 s minimum interval: 10 s falls in bucket 5, sampled at its middle
+    expect(media.seeks).toEqual([11]);
+
+    sampler.destroy();
+  });
+
+  it('gives up on live streams', async () => {
+    const sampler = createFrameSampler('https://example.com/live.m3u8', undefined);
+    await vi.waitFor(() => expect(engine.handlers).not.toBeNull());
+    const media = stubMedia(engine.video as HTMLVideoElement);
+
+    engine.handlers?.onReady();
+    media.setDuration(Infinity);
+    sampler.request(10);
+    expect(media.seeks).toEqual([]);
+
+    sampler.destroy();
+  });
+});
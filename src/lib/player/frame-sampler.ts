@@ -0,0 +1,204 @@
+import { createEngine } from './engine';
+import { resolveStreamType } from './source';
+import type { PlaybackEngine, StreamType } from './types';
+
+export interface FrameSamplerOptions {
+  /** Width of captured frames in pixels */
+  width?: number;
+  /** Frames kept in memory; the least recently used are released first */
+  maxFrames?: number;
+  /** Sampling waits while this returns true, e.g. when the main player is short on buffer */
+  shouldYield?: () => boolean;
+}
+
+export interface FrameSampler {
+  /** Object URL of the cached frame nearest `time`, or null when it has not been sampled yet */
+  getFrame: (time: number) => string | null;
+  /** Queues `time` for sampling; newer requests are served first and stale ones dropped */
+  request: (time: number) => void;
+  /** Calls `listener` whenever a new frame is cached; returns an unsubscribe function */
+  subscribe: (listener: () => void) => () => void;
+  destroy: () => void;
+}
+
+const DEFAULT_WIDTH = 160;
+const DEFAULT_MAX_FRAMES = 120;
+// Enough to decode one frame after a seek without prefetching much beyond it
+const SAMPLER_BUFFER_LENGTH = 4;
+const TARGET_FRAME_COUNT = 100;
+const MIN_INTERVAL = 2;
+const MAX_INTERVAL = 10;
+const MAX_PENDING = 2;
+const SEEK_TIMEOUT = 8000;
+const YIELD_DELAY = 1000;
+
+const seekTo = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve, reject) => {
+    const timeoutId = window.setTimeout(() => {
+      video.removeEventListener('seeked', handleSeeked);
+      reject(new Error('Seek timed out'));
+    }, SEEK_TIMEOUT);
+    const handleSeeked = () => {
+      window.clearTimeout(timeoutId);
+      resolve();
+    };
+    video.addEventListener('seeked', handleSeeked, { once: true });
+    video.currentTime = time;
+  });
+
+/**
+ * Captures preview frames with a second, hidden media pipeline locked to the lowest
+ * rendition, one seek at a time, so previews work for streams without storyboards.
+ */
+export const createFrameSampler = (
+  url: string,
+  mimeType: string | undefined,
+  options: FrameSamplerOptions = {}
+): FrameSampler => {
+  const { width = DEFAULT_WIDTH, maxFrames = DEFAULT_MAX_FRAMES, shouldYield } = options;
+  const video = document.createElement('video');
+  const canvas = document.createElement('canvas');
+  const controller = new AbortController();
+  const frames = new Map<number, string>();
+  const listeners = new Set<() => void>();
+  let pending: number[] = [];
+  let engine: PlaybackEngine | null = null;
+  let interval = MIN_INTERVAL;
+  let ready = false;
+  let busy = false;
+  let failed = false;
+  let destroyed = false;
+  let yieldTimeout: number | undefined;
+
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  // Progressive files must allow CORS or the canvas is tainted and frames cannot be read back
+  video.crossOrigin = 'anonymous';
+
+  const bucketOf = (time: number) => Math.max(0, Math.floor(time / interval));
+
+  const store = (bucket: number, frameUrl: string) => {
+    frames.set(bucket, frameUrl);
+    while (frames.size > maxFrames) {
+      const [oldest, oldestUrl] = frames.entries().next().value as [number, string];
+      frames.delete(oldest);
+      URL.revokeObjectURL(oldestUrl);
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  const capture = async (time: number) => {
+    await seekTo(video, time);
+    canvas.width = width;
+    canvas.height = Math.round(width * (video.videoHeight / video.videoWidth || 9 / 16));
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.7));
+    if (!blob) throw new Error('Could not encode frame');
+    return URL.createObjectURL(blob);
+  };
+
+  const processNext = async () => {
+    if (busy || failed || destroyed || !ready || pending.length === 0) return;
+    if (shouldYield?.()) {
+      window.clearTimeout(yieldTimeout);
+      yieldTimeout = window.setTimeout(processNext, YIELD_DELAY);
+      return;
+    }
+
+    const bucket = bucketOf(pending.pop() as number);
+    if (frames.has(bucket)) {
+      processNext();
+      return;
+    }
+
+    busy = true;
+    try {
+      const frameUrl = await capture(Math.min(video.duration, (bucket + 0.5) * interval));
+      if (destroyed) {
+        URL.revokeObjectURL(frameUrl);
+        return;
+      }
+      store(bucket, frameUrl);
+    } catch (error) {
+      // A tainted canvas will never work for this source; timeouts are worth retrying later
+      if (error instanceof DOMException && error.name === 'SecurityError') failed = true;
+    } finally {
+      busy = false;
+      processNext();
+    }
+  };
+
+  // hls.js reports ready once the manifest is parsed, before the media element knows its
+  // duration, so sampling starts at the first finite duration instead
+  const start = () => {
+    if (ready || failed || destroyed) return;
+    if (video.duration === Infinity) {
+      failed = true;
+      return;
+    }
+    if (!Number.isFinite(video.duration)) return;
+    video.removeEventListener('loadedmetadata', start);
+    video.removeEventListener('durationchange', start);
+    interval = Math.min(MAX_INTERVAL, Math.max(MIN_INTERVAL, video.duration / TARGET_FRAME_COUNT));
+    ready = true;
+    processNext();
+  };
+
+  resolveStreamType(url, mimeType, controller.signal).then((type: StreamType) => {
+    if (controller.signal.aborted) return;
+    engine = createEngine(type, video, url, {
+      onQualities: (qualities) => {
+        const lowest = [...qualities].sort((a, b) => a.height - b.height || (a.bitrate ?? 0) - (b.bitrate ?? 0))[0];
+        if (lowest && qualities.length > 1) engine?.setQuality(lowest.level);
+      },
+      onLevelSwitched: () => {},
+      onAudioTracks: () => {},
+      onLiveChange: (isLive) => {
+        if (isLive) failed = true;
+      },
+      onReady: () => {
+        video.addEventListener('loadedmetadata', start);
+        video.addEventListener('durationchange', start);
+        start();
+      },
+      onFatalError: () => {
+        failed = true;
+      },
+    }, { maxBufferLength: SAMPLER_BUFFER_LENGTH });
+    if (!engine) failed = true;
+  });
+
+  return {
+    getFrame: (time) => {
+      const bucket = bucketOf(time);
+      const frameUrl = frames.get(bucket);
+      if (!frameUrl) return null;
+      // Refresh its place in the least-recently-used order
+      frames.delete(bucket);
+      frames.set(bucket, frameUrl);
+      return frameUrl;
+    },
+    request: (time) => {
+      if (failed || destroyed || (ready && frames.has(bucketOf(time)))) return;
+      // Kept as times rather than buckets: the bucket size is only known once the duration is
+      pending = [...pending, time].slice(-MAX_PENDING);
+      processNext();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    destroy: () => {
+      destroyed = true;
+      controller.abort();
+      window.clearTimeout(yieldTimeout);
+      video.removeEventListener('loadedmetadata', start);
+      video.removeEventListener('durationchange', start);
+      engine?.destroy();
+      frames.forEach((frameUrl) => URL.revokeObjectURL(frameUrl));
+      frames.clear();
+      listeners.clear();
+    },
+  };
+};
@@ -0,0 +1,242 @@
+import Hls from 'hls.js';
+import type { ErrorData, MediaPlaylist } from 'hls.js';
+import { dateRangesToChapters } from './chapters';
+import { getLanguageName, matchesLanguage } from './language';
+import { isWithinCap } from './quality';
+import type { AudioTrackOption, EngineHandlers, EngineOptions, EngineStats, PlaybackEngine } from './types';
+
+const MAX_NETWORK_RETRIES = 4;
+const RETRY_BASE_DELAY = 1000;
+// A retry that neither loads anything nor errors again within this many ms counts as failed
+const RETRY_WATCHDOG_TIMEOUT = 15000;
+
+const toAudioTrackOption = (track: MediaPlaylist, index: number): AudioTrackOption => ({
+  id: index,
+  label: track.name || getLanguageName(track.lang ?? '') || `Track ${index + 1}`,
+  language: track.lang ?? '',
+  kind: track.characteristics?.includes('public.accessibility.describes-video')
+    ? 'description'
+    : /commentary/i.test(track.name) ? 'commentary' : 'main',
+});
+
+export interface HlsEngine extends PlaybackEngine {
+  readonly name: 'hls.js';
+  readonly hls: Hls;
+}
+
+export const createHlsEngine = (
+  video: HTMLVideoElement,
+  url: string,
+  handlers: EngineHandlers,
+  options: EngineOptions = {}
+): HlsEngine => {
+  const hls = new Hls({
+    startLevel: -1,
+    startPosition: options.startTime || -1,
+    capLevelToPlayerSize: true,
+    debug: false,
+    lowLatencyMode: !!options.lowLatency,
+    ...(options.lowLatency && options.targetLatency ? {
+      liveSyncDuration: options.targetLatency,
+      liveMaxLatencyDuration: options.targetLatency * 3,
+      // Catch-up is driven by the player so it can respect the viewer's chosen speed
+      maxLiveSyncPlaybackRate: 1,
+    } : {}),
+    ...(options.maxBufferLength ? {
+      maxBufferLength: options.maxBufferLength,
+      maxMaxBufferLength: options.maxBufferLength,
+    } : {}),
+  });
+  let networkRetries = 0;
+  let mediaRecoveries = 0;
+  let retryTimeout: number | undefined;
+  let retryWatchdog: number | undefined;
+  let audioPreferenceApplied = !options.preferredAudioLanguage;
+  let qualityCapped = false;
+  let fragment: EngineStats['fragment'];
+  let chaptersKey = '';
+  const statsListeners = new Set<() => void>();
+  const notifyStats = () => statsListeners.forEach((listener) => listener());
+
+  // Cues are drawn by the player, so hls.js keeps subtitle tracks 'hidden' rather than 'showing'
+  hls.subtitleDisplay = false;
+  hls.loadSource(url);
+  hls.attachMedia(video);
+
+  hls.on(Hls.Events.MANIFEST_PARSED, (_, data) => {
+    handlers.onQualities(data.levels.map((level, index) => ({
+      height: level.height,
+      level: index,
+      width: level.width,
+      bitrate: level.bitrate,
+      frameRate: level.frameRate || undefined,
+      codec: level.videoCodec,
+    })));
+    handlers.onReady();
+  });
+
+  hls.on(Hls.Events.LEVEL_SWITCHED, (_, data) => {
+    handlers.onLevelSwitched(data.level);
+  });
+
+  hls.on(Hls.Events.LEVEL_LOADED, (_, data) => {
+    window.clearTimeout(retryWatchdog);
+    handlers.onLiveChange(data.details.live);
+
+    const anchor = data.details.fragments.find((frag) => frag.programDateTime !== null);
+    const chapters = dateRangesToChapters(
+      data.details.dateRanges,
+      anchor ? { programDateTime: anchor.programDateTime as number, start: anchor.start } : null
+    );
+    // Live playlists reload constantly; only report when the set of chapters changed
+    const key = chapters.map((chapter) => `${chapter.start}:${chapter.title}`).join('|');
+    if (key !== chaptersKey) {
+      chaptersKey = key;
+      handlers.onChapters?.(chapters);
+    }
+  });
+
+  const reportAudioTracks = () => {
+    handlers.onAudioTracks(hls.audioTracks.map(toAudioTrackOption), hls.audioTrack);
+  };
+
+  hls.on(Hls.Events.AUDIO_TRACKS_UPDATED, () => {
+    if (!audioPreferenceApplied) {
+      audioPreferenceApplied = true;
+      const preferred = hls.audioTracks.findIndex((track) => matchesLanguage(track.lang, options.preferredAudioLanguage));
+      if (preferred !== -1 && preferred !== hls.audioTrack) {
+        hls.audioTrack = preferred;
+      }
+    }
+    reportAudioTracks();
+  });
+
+  hls.on(Hls.Events.AUDIO_TRACK_SWITCHED, reportAudioTracks);
+
+  hls.on(Hls.Events.FRAG_LOADING, (_, data) => {
+    fragment = { url: data.frag.url, sequence: data.frag.sn, level: data.frag.level, loading: true };
+    notifyStats();
+  });
+
+  hls.on(Hls.Events.FRAG_LOADED, (_, data) => {
+    networkRetries = 0;
+    window.clearTimeout(retryWatchdog);
+    if (fragment?.url === data.frag.url) {
+      fragment = { ...fragment, loading: false };
+    }
+    notifyStats();
+  });
+
+  hls.on(Hls.Events.LEVEL_SWITCHED, notifyStats);
+
+  const fail = (data: ErrorData) => {
+    window.clearTimeout(retryTimeout);
+    window.clearTimeout(retryWatchdog);
+    hls.stopLoad();
+    handlers.onFatalError({
+      type: data.type,
+      details: data.details,
+      message: data.type === Hls.ErrorTypes.NETWORK_ERROR
+        ? 'Failed to load video stream'
+        : 'Failed to play video stream',
+    });
+  };
+
+  const isManifestError = (data: ErrorData) => (
+    data.details === Hls.ErrorDetails.MANIFEST_LOAD_ERROR ||
+    data.details === Hls.ErrorDetails.MANIFEST_LOAD_TIMEOUT ||
+    data.details === Hls.ErrorDetails.MANIFEST_PARSING_ERROR
+  );
+
+  // Network errors retry the load with exponential backoff; media errors first try
+  // recoverMediaError() and then a codec swap before giving up. A failed manifest is final:
+  // hls.js has already spent its manifestLoadPolicy retries, and startLoad() has no level to load.
+  hls.on(Hls.Events.ERROR, (_, data) => {
+    if (!data.fatal) return;
+
+    switch (data.type) {
+      case Hls.ErrorTypes.NETWORK_ERROR:
+        if (isManifestError(data) || networkRetries >= MAX_NETWORK_RETRIES) {
+          fail(data);
+          return;
+        }
+        window.clearTimeout(retryTimeout);
+        window.clearTimeout(retryWatchdog);
+        retryTimeout = window.setTimeout(() => {
+          hls.startLoad();
+          retryWatchdog = window.setTimeout(() => fail(data), RETRY_WATCHDOG_TIMEOUT);
+        }, RETRY_BASE_DELAY * 2 ** networkRetries);
+        networkRetries += 1;
+        return;
+
+      case Hls.ErrorTypes.MEDIA_ERROR:
+        if (mediaRecoveries === 0) {
+          hls.recoverMediaError();
+        } else if (mediaRecoveries === 1) {
+          hls.swapAudioCodec();
+          hls.recoverMediaError();
+        } else {
+          fail(data);
+          return;
+        }
+        mediaRecoveries += 1;
+        return;
+
+      default:
+        fail(data);
+    }
+  });
+
+  return {
+    name: 'hls.js',
+    hls,
+    setQuality: (level) => {
+      hls.currentLevel = level;
+    },
+    getLiveEdge: () => hls.liveSyncPosition,
+    getLatency: () => (hls.liveSyncPosition === null ? null : hls.latency),
+    setQualityCap: (cap) => {
+      if (!cap) {
+        if (qualityCapped) {
+          qualityCapped = false;
+          hls.autoLevelCapping = -1;
+          hls.capLevelToPlayerSize = true;
+        }
+        return;
+      }
+      // Player-size capping would overwrite autoLevelCapping, so it pauses while a cap is set
+      qualityCapped = true;
+      hls.capLevelToPlayerSize = false;
+      const allowed = hls.levels.map((level, index) => (isWithinCap(level, cap) ? index : -1));
+      hls.autoLevelCapping = Math.max(0, ...allowed);
+    },
+    getStats: () => {
+      const level = hls.levels[hls.currentLevel];
+      return {
+        bandwidthEstimate: Number.isFinite(hls.bandwidthEstimate) ? hls.bandwidthEstimate : undefined,
+        videoCodec: level?.videoCodec,
+        audioCodec: level?.audioCodec,
+        fragment,
+      };
+    },
+    subscribeStats: (listener) => {
+      statsListeners.add(listener);
+      return () => statsListeners.delete(listener);
+    },
+    setAudioTrack: (id) => {
+      hls.audioTrack = id;
+    },
+    // Embedded CEA-608/708 captions have no subtitle playlist, so they map to -1 here
+    selectSubtitleTrack: (track) => {
+      hls.subtitleTrack = track
+        ? hls.subtitleTracks.findIndex(({ name, lang }) => name === track.label && (lang ?? '') === track.language)
+        : -1;
+    },
+    destroy: () => {
+      window.clearTimeout(retryTimeout);
+      window.clearTimeout(retryWatchdog);
+      statsListeners.clear();
+      hls.destroy();
+    },
+  };
+};
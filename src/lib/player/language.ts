@@ -0,0 +1,15 @@
+export const getLanguageName = (language: string) => {
+  if (!language) return '';
+  try {
+    return new Intl.DisplayNames([navigator.language], { type: 'language' }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+};
+
+/** True when both tags name the same language, ignoring region and script, e.g. "en" and "en-US" */
+export const matchesLanguage = (language: string | null | undefined, preferred: string | null | undefined) => {
+  if (!language || !preferred) return false;
+  const primary = (tag: string) => tag.toLowerCase().split(/[-_]/)[0];
+  return primary(language) === primary(preferred);
+};
@@ -0,0 +1,55 @@
+import type { EngineHandlers, EngineOptions, PlaybackEngine, PlayerError } from './types';
+
+const MEDIA_ERRORS: Record<number, Omit<PlayerError, 'details'>> = {
+  1: { type: 'abortError', message: 'Video loading was aborted' },
+  2: { type: 'networkError', message: 'A network error interrupted the video download' },
+  3: { type: 'mediaError', message: 'The video could not be decoded' },
+  4: { type: 'mediaError', message: 'This video format is not supported by your browser' },
+};
+
+export interface NativeEngine extends PlaybackEngine {
+  readonly name: 'native';
+}
+
+export const createNativeEngine = (
+  video: HTMLVideoElement,
+  url: string,
+  handlers: EngineHandlers,
+  options: EngineOptions = {}
+): NativeEngine => {
+  const handleLoadedMetadata = () => {
+    if (options.startTime) {
+      video.currentTime = options.startTime;
+    }
+    handlers.onLiveChange(video.duration === Infinity);
+    handlers.onQualities(video.videoHeight ? [{ height: video.videoHeight, width: video.videoWidth, level: 0 }] : []);
+    handlers.onLevelSwitched(0);
+    handlers.onReady();
+  };
+
+  const handleError = () => {
+    const mediaError = video.error;
+    const known = MEDIA_ERRORS[mediaError?.code];
+    handlers.onFatalError({
+      type: known?.type ?? 'otherError',
+      details: mediaError?.message || `MEDIA_ERR_${mediaError?.code ?? 'UNKNOWN'}`,
+      message: known?.message ?? 'Failed to load video stream',
+    });
+  };
+
+  video.addEventListener('loadedmetadata', handleLoadedMetadata);
+  video.addEventListener('error', handleError);
+  video.src = url;
+
+  return {
+    name: 'native',
+    // The browser picks the rendition itself for native HLS and progressive files
+    setQuality: () => undefined,
+    destroy: () => {
+      video.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      video.removeEventListener('error', handleError);
+      video.removeAttribute('src');
+      video.load();
+    },
+  };
+};
@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import {
+  DEFAULT_CAPTION_STYLE,
+  type CaptionEdgeStyle,
+  type CaptionFontFamily,
+  type CaptionPosition,
+  type CaptionStyle,
+} from './caption-style';
+
+/** Viewer choices remembered across sessions */
+export interface PlayerPreferences {
+  volume?: number;
+  muted?: boolean;
+  playbackRate?: number;
+  /** Language of the last chosen captions; null when the viewer turned captions off */
+  captionLanguage?: string | null;
+  audioLanguage?: string;
+  dataSaver?: boolean;
+  captionStyle?: Partial<CaptionStyle>;
+}
+
+const STORAGE_KEY = 'swiftstreamer:preferences';
+const LEGACY_CAPTION_STYLE_KEY = 'swiftstreamer:caption-style';
+
+/** Bump together with a new entry in `MIGRATIONS` whenever stored preferences change shape */
+export const PREFERENCES_VERSION = 1;
+
+type StoredPreferences = Record<string, unknown>;
+
+const readItem = (key: string): unknown => {
+  try {
+    return JSON.parse(window.localStorage.getItem(key) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+/** `MIGRATIONS[n]` turns preferences stored as version n into version n + 1 */
+const MIGRATIONS: Record<number, (preferences: StoredPreferences) => StoredPreferences> = {
+  // Version 0 is everything before the preferences store: only caption styling was kept,
+  // under a key of its own
+  0: (preferences) => {
+    const captionStyle = readItem(LEGACY_CAPTION_STYLE_KEY);
+    try {
+      window.localStorage.removeItem(LEGACY_CAPTION_STYLE_KEY);
+    } catch {
+      // Nothing to clean up when storage is unavailable
+    }
+    return captionStyle && typeof captionStyle === 'object' ? { ...preferences, captionStyle } : preferences;
+  },
+};
+
+const captionFontFamilySchema = z.enum(['sans', 'serif', 'mono', 'casual', 'smallCaps']) satisfies z.ZodType<CaptionFontFamily>;
+const captionEdgeStyleSchema = z.enum(['none', 'outline', 'dropShadow', 'raised', 'depressed']) satisfies z.ZodType<CaptionEdgeStyle>;
+const captionPositionSchema = z.enum(['bottom', 'top']) satisfies z.ZodType<CaptionPosition>;
+
+// Every field falls back on its own, so one bad value does not discard the rest
+const preferencesSchema = z.object({
+  volume: z.number().min(0).max(1).optional().catch(undefined),
+  muted: z.boolean().optional().catch(undefined),
+  playbackRate: z.number().min(0.25).max(4).optional().catch(undefined),
+  captionLanguage: z.string().nullable().optional().catch(undefined),
+  audioLanguage: z.string().optional().catch(undefined),
+  dataSaver: z.boolean().optional().catch(undefined),
+  captionStyle: z
+    .object({
+      fontFamily: captionFontFamilySchema.optional().catch(DEFAULT_CAPTION_STYLE.fontFamily),
+      fontScale: z.number().positive().optional().catch(DEFAULT_CAPTION_STYLE.fontScale),
+      textColor: z.string().regex(/^#[0-9a-f]{6}$/i).optional().catch(DEFAULT_CAPTION_STYLE.textColor),
+      backgroundOpacity: z.number().min(0).max(1).optional().catch(DEFAULT_CAPTION_STYLE.backgroundOpacity),
+      edgeStyle: captionEdgeStyleSchema.optional().catch(DEFAULT_CAPTION_STYLE.edgeStyle),
+      position: captionPositionSchema.optional().catch(DEFAULT_CAPTION_STYLE.position),
+    })
+    .optional()
+    .catch(undefined),
+});
+
+const writePreferences = (preferences: PlayerPreferences) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: PREFERENCES_VERSION, preferences }));
+  } catch {
+    // Storage can be unavailable, e.g. in sandboxed iframes or private browsing
+  }
+};
+
+/** Reads stored preferences, upgrading them from older versions first */
+export const loadPreferences = (): PlayerPreferences => {
+  const stored = readItem(STORAGE_KEY) as { version?: unknown; preferences?: unknown } | null;
+  let version = typeof stored?.version === 'number' ? stored.version : 0;
+  // Preferences written by a newer build are left alone rather than guessed at
+  if (version > PREFERENCES_VERSION) return {};
+
+  let preferences: StoredPreferences = stored?.preferences && typeof stored.preferences === 'object'
+    ? stored.preferences as StoredPreferences
+    : {};
+  const migrated = version < PREFERENCES_VERSION;
+  while (version < PREFERENCES_VERSION) {
+    preferences = MIGRATIONS[version]?.(preferences) ?? preferences;
+    version++;
+  }
+
+  const result = preferencesSchema.safeParse(preferences);
+  const loaded = (result.success ? result.data : {}) as PlayerPreferences;
+  if (migrated) writePreferences(loaded);
+  return loaded;
+};
+
+/** Merges `changes` into the stored preferences */
+export const updatePreferences = (changes: Partial<PlayerPreferences>) => {
+  const stored = readItem(STORAGE_KEY) as { version?: unknown } | null;
+  if (typeof stored?.version === 'number' && stored.version > PREFERENCES_VERSION) return;
+  writePreferences({ ...loadPreferences(), ...changes });
+};
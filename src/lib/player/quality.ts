@@ -0,0 +1,86 @@
+import type { QualityCap, QualityLevel } from './types';
+
+const CODEC_NAMES: [RegExp, string][] = [
+  [/^(avc1|avc3)/, 'H.264'],
+  [/^(hvc1|hev1)/, 'HEVC'],
+  [/^(dvh1|dvhe)/, 'Dolby Vision'],
+  [/^av01/, 'AV1'],
+  [/^(vp09|vp9)/, 'VP9'],
+  [/^vp8/, 'VP8'],
+];
+
+export const formatBitrate = (bitsPerSecond: number) => {
+  if (!bitsPerSecond) return '';
+  if (bitsPerSecond >= 1_000_000) return `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps`;
+  return `${Math.round(bitsPerSecond / 1000)} kbps`;
+};
+
+export const getCodecName = (codec?: string) => {
+  if (!codec) return '';
+  const match = CODEC_NAMES.find(([pattern]) => pattern.test(codec.toLowerCase()));
+  return match ? match[1] : codec.split('.')[0];
+};
+
+const getBaseLabel = ({ height, frameRate }: QualityLevel) => {
+  if (!height) return 'Unknown';
+  return `${height}p${frameRate && frameRate > 30 ? Math.round(frameRate) : ''}`;
+};
+
+/** "720p", "1080p60", or "1080p · 6.0 Mbps" when another level shares the same height and frame rate */
+export const getQualityLabel = (quality: QualityLevel, qualities: QualityLevel[]) => {
+  const base = getBaseLabel(quality);
+  const isAmbiguous = qualities.some((other) => other.level !== quality.level && getBaseLabel(other) === base);
+  return isAmbiguous && quality.bitrate ? `${base} · ${formatBitrate(quality.bitrate)}` : base;
+};
+
+export const getQualityDetails = ({ bitrate, frameRate, codec }: QualityLevel) => {
+  return [
+    bitrate ? formatBitrate(bitrate) : '',
+    frameRate ? `${Math.round(frameRate * 100) / 100} fps` : '',
+    getCodecName(codec),
+  ].filter(Boolean).join(' · ');
+};
+
+/** Highest resolution first, then highest bitrate */
+export const sortQualities = (qualities: QualityLevel[]) => {
+  return [...qualities].sort((a, b) => b.height - a.height || (b.bitrate ?? 0) - (a.bitrate ?? 0));
+};
+
+export const DATA_SAVER_CAP: QualityCap = {
+  maxHeight: 480,
+  maxBitrate: 1_500_000,
+};
+
+export const isWithinCap = (quality: Pick<QualityLevel, 'height' | 'bitrate'>, cap: QualityCap) => {
+  if (cap.maxHeight && quality.height > cap.maxHeight) return false;
+  if (cap.maxBitrate && (quality.bitrate ?? 0) > cap.maxBitrate) return false;
+  return true;
+};
+
+/** Combines explicit limits with the data saver preset, keeping the stricter bound of each */
+export const resolveQualityCap = (limits: QualityCap, dataSaver: boolean): QualityCap | null => {
+  const strictest = (a?: number, b?: number) => (a && b ? Math.min(a, b) : a || b || undefined);
+  const cap: QualityCap = {
+    maxHeight: strictest(limits.maxHeight, dataSaver ? DATA_SAVER_CAP.maxHeight : undefined),
+    maxBitrate: strictest(limits.maxBitrate, dataSaver ? DATA_SAVER_CAP.maxBitrate : undefined),
+  };
+  return cap.maxHeight || cap.maxBitrate ? cap : null;
+};
+
+export const formatQualityCap = (cap: QualityCap) => {
+  return [cap.maxHeight ? `${cap.maxHeight}p` : '', cap.maxBitrate ? formatBitrate(cap.maxBitrate) : '']
+    .filter(Boolean)
+    .join(' · ');
+};
+
+interface NetworkInformation {
+  saveData?: boolean;
+  effectiveType?: string;
+}
+
+/** Data saver defaults on when the browser asks to save data or reports a slow connection */
+export const prefersDataSaver = () => {
+  const connection = (navigator as Navigator & { connection?: NetworkInformation }).connection;
+  if (!connection) return false;
+  return !!connection.saveData || ['slow-2g', '2g', '3g'].includes(connection.effectiveType ?? '');
+};
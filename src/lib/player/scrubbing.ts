@@ -0,0 +1,40 @@
+export interface ScrubLevel {
+  /** Pixels the pointer has to move above or below the bar to reach this level */
+  distance: number;
+  /** Share of the bar's normal seconds-per-pixel */
+  rate: number;
+  /** Never moves more than one frame per pixel */
+  frameAccurate?: boolean;
+  label: string;
+}
+
+/** Like iOS scrubbing: the further the pointer is dragged away from the bar, the finer the seek */
+export const SCRUB_LEVELS: ScrubLevel[] = [
+  { distance: 0, rate: 1, label: 'Scrubbing' },
+  { distance: 48, rate: 0.5, label: 'Half-speed scrubbing' },
+  { distance: 96, rate: 0.25, label: 'Quarter-speed scrubbing' },
+  { distance: 144, rate: 0.1, frameAccurate: true, label: 'Fine scrubbing' },
+];
+
+/** Level for a pointer `distance` pixels above or below the bar */
+export const getScrubLevel = (distance: number) => {
+  return [...SCRUB_LEVELS].reverse().find((level) => Math.abs(distance) >= level.distance) ?? SCRUB_LEVELS[0];
+};
+
+/** Seconds the playhead moves per pixel of horizontal pointer movement at `level` */
+export const getScrubSecondsPerPixel = (
+  level: ScrubLevel,
+  timelineLength: number,
+  barWidth: number,
+  frameDuration: number
+) => {
+  const seconds = barWidth > 0 ? (timelineLength / barWidth) * level.rate : 0;
+  return level.frameAccurate ? Math.min(seconds, frameDuration) : seconds;
+};
+
+/** Pixels between the pointer and the bar vertically; 0 while it is level with the bar */
+export const getDistanceFromBar = (clientY: number, rect: DOMRect) => {
+  if (clientY < rect.top) return rect.top - clientY;
+  if (clientY > rect.bottom) return clientY - rect.bottom;
+  return 0;
+};
@@ -0,0 +1,108 @@
+export type ShortcutAction =
+  | 'playPause'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'seekBackwardShort'
+  | 'seekForwardShort'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'mute'
+  | 'fullscreen'
+  | 'captions'
+  | 'speedDown'
+  | 'speedUp'
+  | 'seekToPercentage'
+  | 'previousFrame'
+  | 'nextFrame'
+  | 'previousChapter'
+  | 'nextChapter'
+  | 'help';
+
+/** Keys per action, compared against `KeyboardEvent.key`; an empty list disables the action */
+export type KeyBindings = Record<ShortcutAction, string[]>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  playPause: [' ', 'k'],
+  seekBackward: ['j'],
+  seekForward: ['l'],
+  seekBackwardShort: ['ArrowLeft'],
+  seekForwardShort: ['ArrowRight'],
+  volumeUp: ['ArrowUp'],
+  volumeDown: ['ArrowDown'],
+  mute: ['m'],
+  fullscreen: ['f'],
+  captions: ['c'],
+  speedDown: ['<'],
+  speedUp: ['>'],
+  seekToPercentage: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
+  previousFrame: [','],
+  nextFrame: ['.'],
+  previousChapter: ['p'],
+  nextChapter: ['n'],
+  help: ['?'],
+};
+
+export const SHORTCUT_DESCRIPTIONS: Record<ShortcutAction, string> = {
+  playPause: 'Play / pause',
+  seekBackward: 'Rewind 10 seconds',
+  seekForward: 'Forward 10 seconds',
+  seekBackwardShort: 'Rewind 5 seconds',
+  seekForwardShort: 'Forward 5 seconds',
+  volumeUp: 'Volume up',
+  volumeDown: 'Volume down',
+  mute: 'Mute / unmute',
+  fullscreen: 'Toggle fullscreen',
+  captions: 'Toggle captions',
+  speedDown: 'Decrease speed',
+  speedUp: 'Increase speed',
+  seekToPercentage: 'Jump to 0%–90%',
+  previousFrame: 'Previous frame (while paused)',
+  nextFrame: 'Next frame (while paused)',
+  previousChapter: 'Previous chapter (or start of this one)',
+  nextChapter: 'Next chapter',
+  help: 'Show keyboard shortcuts',
+};
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+};
+
+export const formatShortcutKey = (key: string) => KEY_NAMES[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+/** Lists the bound keys compactly, collapsing runs of digits into a range such as "0–9" */
+export const formatShortcutKeys = (keys: string[]) => {
+  const digits = keys.filter((key) => /^\d$/.test(key));
+  const others = keys.filter((key) => !/^\d$/.test(key)).map(formatShortcutKey);
+  if (digits.length > 2) {
+    const sorted = [...digits].sort();
+    return [...others, `${sorted[0]}–${sorted[sorted.length - 1]}`];
+  }
+  return [...others, ...digits];
+};
+
+export const resolveKeyBindings = (overrides?: Partial<KeyBindings>): KeyBindings => ({
+  ...DEFAULT_KEY_BINDINGS,
+  ...overrides,
+});
+
+const normalizeKey = (key: string) => (key.length === 1 ? key.toLowerCase() : key);
+
+export const findShortcutAction = (bindings: KeyBindings, key: string) => {
+  const normalized = normalizeKey(key);
+  return (Object.keys(bindings) as ShortcutAction[]).find((action) =>
+    bindings[action].some((binding) => normalizeKey(binding) === normalized)
+  );
+};
+
+/** Elements that keep their own keyboard handling; range inputs are left to the player */
+export const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  return target instanceof HTMLInputElement && target.type !== 'range';
+};
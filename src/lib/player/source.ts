@@ -0,0 +1,120 @@
+import type { PlayerSource, StreamType } from './types';
+
+const HLS_MIME_TYPES = [
+  'application/vnd.apple.mpegurl',
+  'application/x-mpegurl',
+  'audio/mpegurl',
+  'audio/x-mpegurl',
+];
+
+const DASH_MIME_TYPES = ['application/dash+xml'];
+
+const EXTENSION_TYPES: Record<string, StreamType> = {
+  m3u8: 'hls',
+  m3u: 'hls',
+  mpd: 'dash',
+  mp4: 'progressive',
+  m4v: 'progressive',
+  mov: 'progressive',
+  webm: 'progressive',
+  ogv: 'progressive',
+  ogg: 'progressive',
+};
+
+const SNIFF_BYTES = 512;
+
+export const getUrlExtension = (url: string) => {
+  let pathname: string;
+  try {
+    pathname = new URL(url, window.location.href).pathname;
+  } catch {
+    pathname = url.split(/[?#]/)[0];
+  }
+  const match = /\.([a-z0-9]+)$/i.exec(pathname);
+  return match ? match[1].toLowerCase() : null;
+};
+
+export const streamTypeFromMime = (mimeType?: string | null): StreamType | null => {
+  if (!mimeType) return null;
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  if (HLS_MIME_TYPES.includes(type)) return 'hls';
+  if (DASH_MIME_TYPES.includes(type)) return 'dash';
+  if (type.startsWith('video/') || type.startsWith('audio/')) return 'progressive';
+  return null;
+};
+
+export const detectStreamType = (url: string, mimeType?: string | null): StreamType | null => {
+  const fromMime = streamTypeFromMime(mimeType);
+  if (fromMime) return fromMime;
+  const extension = getUrlExtension(url);
+  return extension ? EXTENSION_TYPES[extension] ?? null : null;
+};
+
+const streamTypeFromBytes = (bytes: Uint8Array): StreamType | null => {
+  const text = new TextDecoder().decode(bytes).replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('#EXTM3U')) return 'hls';
+  if (text.startsWith('<') && text.includes('<MPD')) return 'dash';
+  // ISO BMFF files carry 'ftyp' at offset 4, WebM/Matroska start with the EBML magic, Ogg with 'OggS'
+  if (text.slice(4, 8) === 'ftyp') return 'progressive';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'progressive';
+  if (text.startsWith('OggS')) return 'progressive';
+  return null;
+};
+
+const readHead = async (response: Response) => {
+  if (!response.body) {
+    return new Uint8Array(await response.arrayBuffer()).slice(0, SNIFF_BYTES);
+  }
+  const reader = response.body.getReader();
+  const { value } = await reader.read();
+  reader.cancel().catch(() => undefined);
+  return (value ?? new Uint8Array()).slice(0, SNIFF_BYTES);
+};
+
+export const sniffStreamType = async (url: string, signal?: AbortSignal): Promise<StreamType | null> => {
+  try {
+    const head = await fetch(url, { method: 'HEAD', signal });
+    if (head.ok) {
+      const fromHeader = streamTypeFromMime(head.headers.get('content-type'));
+      if (fromHeader) return fromHeader;
+    }
+  } catch {
+    if (signal?.aborted) return null;
+  }
+
+  try {
+    const response = await fetch(url, { headers: { Range: `bytes=0-${SNIFF_BYTES - 1}` }, signal });
+    if (!response.ok) return null;
+    return streamTypeFromMime(response.headers.get('content-type')) ?? streamTypeFromBytes(await readHead(response));
+  } catch {
+    return null;
+  }
+};
+
+export const resolveStreamType = async (
+  url: string,
+  mimeType?: string | null,
+  signal?: AbortSignal
+): Promise<StreamType> => {
+  return detectStreamType(url, mimeType) ?? (await sniffStreamType(url, signal)) ?? 'progressive';
+};
+
+export const canPlayHlsNatively = (video: HTMLVideoElement) => {
+  return video.canPlayType('application/vnd.apple.mpegurl') !== '';
+};
+
+export const getSourceLabel = (source: PlayerSource, index: number) => {
+  if (source.label) return source.label;
+  try {
+    return new URL(source.url, window.location.href).hostname || `Source ${index + 1}`;
+  } catch {
+    return `Source ${index + 1}`;
+  }
+};
+
+/** Fetches a sidecar file (subtitles, chapters, thumbnails) as text, failing on HTTP errors */
+export const fetchText = async (url: string, signal?: AbortSignal) => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.text();
+};
@@ -0,0 +1,34 @@
+import type { EngineStats, PlaybackEngine } from './types';
+
+export interface PlaybackStats extends EngineStats {
+  engine?: PlaybackEngine['name'];
+  videoWidth: number;
+  videoHeight: number;
+  bufferAhead: number;
+  droppedFrames?: number;
+  totalFrames?: number;
+}
+
+/** Seconds buffered past the playhead within the range that contains it */
+export const getBufferAhead = (video: HTMLVideoElement) => {
+  const { buffered, currentTime } = video;
+  for (let i = 0; i < buffered.length; i++) {
+    if (buffered.start(i) <= currentTime + 0.1 && currentTime <= buffered.end(i)) {
+      return buffered.end(i) - currentTime;
+    }
+  }
+  return 0;
+};
+
+export const collectPlaybackStats = (video: HTMLVideoElement, engine: PlaybackEngine | null): PlaybackStats => {
+  const quality = video.getVideoPlaybackQuality?.();
+  return {
+    ...engine?.getStats?.(),
+    engine: engine?.name,
+    videoWidth: video.videoWidth,
+    videoHeight: video.videoHeight,
+    bufferAhead: getBufferAhead(video),
+    droppedFrames: quality?.droppedVideoFrames,
+    totalFrames: quality?.totalVideoFrames,
+  };
+};
@@ -0,0 +1,193 @@
+export type SubtitleFormat = 'vtt' | 'srt' | 'ttml' | 'ass';
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const EXTENSION_FORMATS: Record<string, SubtitleFormat> = {
+  vtt: 'vtt',
+  webvtt: 'vtt',
+  srt: 'srt',
+  ttml: 'ttml',
+  dfxp: 'ttml',
+  xml: 'ttml',
+  ass: 'ass',
+  ssa: 'ass',
+};
+
+export const detectSubtitleFormat = (text: string, fileName?: string): SubtitleFormat => {
+  const extension = fileName?.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  if (extension && EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+
+  const head = text.replace(/^\uFEFF/, '').trimStart().slice(0, 1000);
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (head.startsWith('[Script Info]') || /^\[V4\+? Styles\]/m.test(head)) return 'ass';
+  if (head.startsWith('<') && /<tt[\s>]/.test(head)) return 'ttml';
+  return 'srt';
+};
+
+// 01:02:03.456, 01:02:03,456 or 02:03.456
+const parseClockTime = (value: string) => {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d+))?$/.exec(value.trim());
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    Number(hours ?? 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    (fraction ? Number(`0.${fraction}`) : 0)
+  );
+};
+
+/** WebVTT and SRT share the same "start --> end" block layout */
+const parseTimedTextBlocks = (text: string): SubtitleCue[] => {
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: SubtitleCue[] = [];
+
+  blocks.forEach((block) => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) return;
+
+    const [startValue, rest] = lines[timingIndex].split('-->');
+    // Everything after the end time is WebVTT cue settings, e.g. "line:0 align:start"
+    const start = parseClockTime(startValue);
+    const end = parseClockTime(rest.trim().split(/\s+/)[0]);
+    const cueText = lines.slice(timingIndex + 1).join('\n').trim();
+    if (start === null || end === null || !cueText) return;
+
+    cues.push({ start, end, text: cueText.replace(/<[^>]+>/g, '') });
+  });
+
+  return cues;
+};
+
+const parseTtmlTime = (value: string | null, frameRate: number, tickRate: number) => {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  const clock = /^(\d+):(\d{2}):(\d{2})(?::(\d+(?:\.\d+)?)|(\.\d+))?$/.exec(trimmed);
+  if (clock) {
+    const [, hours, minutes, seconds, frames, fraction] = clock;
+    return (
+      Number(hours) * 3600 +
+      Number(minutes) * 60 +
+      Number(seconds) +
+      (frames ? Number(frames) / frameRate : 0) +
+      (fraction ? Number(fraction) : 0)
+    );
+  }
+
+  const offset = /^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/.exec(trimmed);
+  if (!offset) return null;
+  const amount = Number(offset[1]);
+  switch (offset[2]) {
+    case 'h': return amount * 3600;
+    case 'm': return amount * 60;
+    case 's': return amount;
+    case 'ms': return amount / 1000;
+    case 'f': return amount / frameRate;
+    case 't': return amount / tickRate;
+  }
+  return null;
+};
+
+const getTtmlText = (node: Node): string => {
+  return Array.from(node.childNodes).map((child) => {
+    if (child.nodeType === Node.TEXT_NODE) return child.textContent?.replace(/\s+/g, ' ') ?? '';
+    if (child.nodeType !== Node.ELEMENT_NODE) return '';
+    return (child as Element).localName === 'br' ? '\n' : getTtmlText(child);
+  }).join('');
+};
+
+/** TTML / IMSC text profile: timed `<p>` elements, honouring `begin` offsets on enclosing `<body>`/`<div>` */
+const parseTtml = (text: string): SubtitleCue[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return [];
+
+  const root = doc.documentElement;
+  const attribute = (element: Element, name: string) => {
+    return element.getAttribute(name) ?? element.getAttributeNS('http://www.w3.org/ns/ttml#parameter', name);
+  };
+  const frameRate = Number(attribute(root, 'frameRate')) || 30;
+  const tickRate = Number(attribute(root, 'tickRate')) || frameRate;
+
+  const cues: SubtitleCue[] = [];
+  Array.from(doc.getElementsByTagNameNS('*', 'p')).forEach((paragraph) => {
+    let offset = 0;
+    for (let parent = paragraph.parentElement; parent && parent !== root; parent = parent.parentElement) {
+      offset += parseTtmlTime(parent.getAttribute('begin'), frameRate, tickRate) ?? 0;
+    }
+
+    const begin = parseTtmlTime(paragraph.getAttribute('begin'), frameRate, tickRate);
+    const end = parseTtmlTime(paragraph.getAttribute('end'), frameRate, tickRate);
+    const dur = parseTtmlTime(paragraph.getAttribute('dur'), frameRate, tickRate);
+    if (begin === null || (end === null && dur === null)) return;
+
+    const cueText = getTtmlText(paragraph).split('\n').map((line) => line.trim()).join('\n').trim();
+    if (!cueText) return;
+
+    cues.push({
+      start: offset + begin,
+      end: offset + (end ?? begin + dur),
+      text: cueText,
+    });
+  });
+
+  return cues;
+};
+
+/** ASS/SSA "Dialogue:" lines; styling and override tags such as `{\an8}` are dropped */
+const parseAss = (text: string): SubtitleCue[] => {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const cues: SubtitleCue[] = [];
+  let inEvents = false;
+  let fields: string[] = [];
+
+  lines.forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      inEvents = line.toLowerCase() === '[events]';
+      return;
+    }
+    if (!inEvents) return;
+
+    if (line.startsWith('Format:')) {
+      fields = line.slice('Format:'.length).split(',').map((field) => field.trim().toLowerCase());
+      return;
+    }
+    if (!line.startsWith('Dialogue:') || fields.length === 0) return;
+
+    const values = line.slice('Dialogue:'.length).split(',');
+    // Text is always the last field and may itself contain commas
+    const textValue = values.slice(fields.length - 1).join(',');
+    const start = parseClockTime(values[fields.indexOf('start')] ?? '');
+    const end = parseClockTime(values[fields.indexOf('end')] ?? '');
+    const cueText = textValue
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/\\N/gi, '\n')
+      .replace(/\\h/g, ' ')
+      .trim();
+    if (start === null || end === null || !cueText) return;
+
+    cues.push({ start, end, text: cueText });
+  });
+
+  return cues;
+};
+
+export const parseSubtitles = (text: string, format: SubtitleFormat): SubtitleCue[] => {
+  const cues = (() => {
+    switch (format) {
+      case 'ttml':
+        return parseTtml(text);
+      case 'ass':
+        return parseAss(text);
+      default:
+        return parseTimedTextBlocks(text);
+    }
+  })();
+  return cues.sort((a, b) => a.start - b.start);
+};
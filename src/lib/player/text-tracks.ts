@@ -0,0 +1,55 @@
+import { getLanguageName } from './language';
+import type { SubtitleCue } from './subtitle-parsers';
+
+export type SubtitleKind = 'subtitles' | 'captions';
+
+export interface SubtitleTrackOption {
+  id: string;
+  label: string;
+  language: string;
+  kind: SubtitleKind;
+}
+
+/** Sideloaded subtitles, kept outside `video.textTracks` because engines clear those on reload */
+export interface ExternalSubtitleTrack extends SubtitleTrackOption {
+  cues: SubtitleCue[];
+}
+
+const trackIds = new WeakMap<TextTrack, string>();
+let nextTrackId = 0;
+
+export const isSubtitleTrack = (track: TextTrack) => track.kind === 'subtitles' || track.kind === 'captions';
+
+export const getTextTrackId = (track: TextTrack) => {
+  let id = trackIds.get(track);
+  if (!id) {
+    nextTrackId += 1;
+    id = `text-${nextTrackId}`;
+    trackIds.set(track, id);
+  }
+  return id;
+};
+
+export const toSubtitleTrackOption = (track: TextTrack, index: number): SubtitleTrackOption => ({
+  id: getTextTrackId(track),
+  label: track.label || getLanguageName(track.language) || `Track ${index + 1}`,
+  language: track.language,
+  kind: track.kind === 'captions' ? 'captions' : 'subtitles',
+});
+
+export const listSubtitleTracks = (video: HTMLVideoElement) => {
+  return Array.from(video.textTracks).filter(isSubtitleTrack);
+};
+
+/** Plain text lines of a cue, with WebVTT markup such as `<i>` or `<v Speaker>` removed */
+export const getCueLines = (cue: TextTrackCue) => {
+  const text = 'text' in cue ? String((cue as VTTCue).text) : '';
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+};
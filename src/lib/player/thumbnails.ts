@@ -0,0 +1,124 @@
+import { parseSubtitles } from './subtitle-parsers';
+import { findLastAtOrBefore } from './time';
+
+export interface ThumbnailCue {
+  start: number;
+  end: number;
+  /** Image or sprite sheet */
+  url: string;
+  /** Region of the sprite sheet; absent when the image is a single frame */
+  region?: { x: number; y: number; width: number; height: number };
+}
+
+const resolveUrl = (url: string, baseUrl: string) => {
+  try {
+    return new URL(url, baseUrl).href;
+  } catch {
+    return url;
+  }
+};
+
+/** Storyboard WebVTT: each cue's text is an image URL, optionally with a `#xywh=x,y,w,h` sprite region */
+export const parseThumbnailVtt = (text: string, baseUrl: string): ThumbnailCue[] => {
+  return parseSubtitles(text, 'vtt').map((cue) => {
+    const [url, fragment] = cue.text.trim().split('#');
+    const region = /^xywh=(\d+),(\d+),(\d+),(\d+)$/.exec(fragment ?? '');
+    return {
+      start: cue.start,
+      end: cue.end,
+      url: resolveUrl(url, baseUrl),
+      region: region
+        ? { x: Number(region[1]), y: Number(region[2]), width: Number(region[3]), height: Number(region[4]) }
+        : undefined,
+    };
+  });
+};
+
+const parseAttributes = (line: string) => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line))) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+};
+
+/** URI of the smallest image stream (EXT-X-IMAGE-STREAM-INF) in an HLS multivariant playlist */
+export const findImagePlaylistUrl = (manifest: string, baseUrl: string) => {
+  const streams = manifest
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('#EXT-X-IMAGE-STREAM-INF:'))
+    .map((line) => parseAttributes(line.slice(line.indexOf(':') + 1)))
+    .filter((attributes) => attributes.URI)
+    .sort((a, b) => Number(a.BANDWIDTH ?? 0) - Number(b.BANDWIDTH ?? 0));
+  return streams.length > 0 ? resolveUrl(streams[0].URI, baseUrl) : null;
+};
+
+/**
+ * HLS image media playlist: every segment is a sprite sheet laid out by the preceding
+ * `#EXT-X-TILES` tag (RESOLUTION of one tile, LAYOUT columns×rows, DURATION per tile).
+ * Ordinary media and multivariant playlists yield no cues.
+ */
+export const parseImagePlaylist = (text: string, baseUrl: string): ThumbnailCue[] => {
+  if (!/^#EXT-X-(IMAGES-ONLY|TILES)\b/m.test(text)) return [];
+
+  const cues: ThumbnailCue[] = [];
+  let tiles = { width: 0, height: 0, columns: 1, rows: 1, duration: 0 };
+  let segmentDuration = 0;
+  let time = 0;
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('#EXT-X-TILES:')) {
+      const attributes = parseAttributes(line.slice(line.indexOf(':') + 1));
+      const [width, height] = (attributes.RESOLUTION ?? '').split('x').map(Number);
+      const [columns, rows] = (attributes.LAYOUT ?? '1x1').split('x').map(Number);
+      tiles = {
+        width: width || 0,
+        height: height || 0,
+        columns: columns || 1,
+        rows: rows || 1,
+        duration: Number(attributes.DURATION) || 0,
+      };
+      return;
+    }
+    if (line.startsWith('#EXTINF:')) {
+      segmentDuration = parseFloat(line.slice('#EXTINF:'.length)) || 0;
+      return;
+    }
+    if (line.startsWith('#')) return;
+
+    const url = resolveUrl(line, baseUrl);
+    const count = tiles.columns * tiles.rows;
+    const tileDuration = tiles.duration || segmentDuration / count;
+    for (let index = 0; index < count && tileDuration > 0; index++) {
+      const start = time + index * tileDuration;
+      if (start >= time + segmentDuration) break;
+      cues.push({
+        start,
+        end: Math.min(start + tileDuration, time + segmentDuration),
+        url,
+        region: tiles.width && tiles.height
+          ? {
+              x: (index % tiles.columns) * tiles.width,
+              y: Math.floor(index / tiles.columns) * tiles.height,
+              width: tiles.width,
+              height: tiles.height,
+            }
+          : undefined,
+      });
+    }
+    time += segmentDuration;
+  });
+
+  return cues;
+};
+
+/** Cue showing at `time`, or null in gaps between cues */
+export const findThumbnail = (cues: ThumbnailCue[], time: number) => {
+  const cue = cues[findLastAtOrBefore(cues, time, (item) => item.start)];
+  return cue && time < cue.end ? cue : null;
+};
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { findLastAtOrBefore } from './time';
+
+describe('findLastAtOrBefore', () => {
+  const items = [{ start: 0 }, { start: 10 }, { start: 20 }];
+  const getStart = (item: { start: number }) => item.start;
+
+  it('finds the last item starting at or before the time', () => {
+    expect(findLastAtOrBefore(items, 0, getStart)).toBe(0);
+    expect(findLastAtOrBefore(items, 15, getStart)).toBe(1);
+    expect(findLastAtOrBefore(items, 20, getStart)).toBe(2);
+    expect(findLastAtOrBefore(items, 99, getStart)).toBe(2);
+  });
+
+  it('returns -1 before the first item or for an empty list', () => {
+    expect(findLastAtOrBefore(items, -1, getStart)).toBe(-1);
+    expect(findLastAtOrBefore([], 5, getStart)).toBe(-1);
+  });
+});
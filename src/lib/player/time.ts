@@ -0,0 +1,42 @@
+/**
+ * Accepts plain seconds ("90", "90.5"), unit form ("1h2m3s", "1m30s", "45s") and
+ * clock form ("1:30", "1:02:03"). Returns null when the value is none of those.
+ */
+export const parseTimeString = (value: string): number | null => {
+  const trimmed = value.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+
+  const units = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s)?$/);
+  if (units && trimmed !== '') {
+    const [, hours = '0', minutes = '0', seconds = '0'] = units;
+    return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseFloat(seconds);
+  }
+
+  const clock = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{2}(?:\.\d+)?)$/);
+  if (clock) {
+    const [, hours = '0', minutes, seconds] = clock;
+    return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseFloat(seconds);
+  }
+
+  return null;
+};
+
+/**
+ * Index of the last of `items`, sorted by start time, that starts at or before `time`; -1 when
+ * they all start later
+ */
+export const findLastAtOrBefore = <T>(items: T[], time: number, getStart: (item: T) => number) => {
+  let low = 0;
+  let high = items.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (getStart(items[middle]) <= time) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+};
@@ -0,0 +1,126 @@
+import type { ChapterEntry } from './chapters';
+import type { SubtitleFormat } from './subtitle-parsers';
+
+export type StreamType = 'hls' | 'dash' | 'progressive';
+
+export interface PlayerSource {
+  url: string;
+  /** MIME type, used instead of guessing from the URL when given */
+  type?: string;
+  label?: string;
+}
+
+export interface SubtitleSource {
+  url: string;
+  language?: string;
+  label?: string;
+  /** Detected from the file extension or contents when omitted */
+  format?: SubtitleFormat;
+}
+
+export interface QualityLevel {
+  height: number;
+  /** Engine-specific index passed back to `setQuality` */
+  level: number;
+  width?: number;
+  bitrate?: number;
+  frameRate?: number;
+  codec?: string;
+}
+
+/** Upper bounds for the renditions adaptive bitrate may choose from */
+export interface QualityCap {
+  maxHeight?: number;
+  /** Bits per second */
+  maxBitrate?: number;
+}
+
+export interface EngineStats {
+  /** Bits per second */
+  bandwidthEstimate?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  /** Segment request currently in flight, or the last one when idle */
+  fragment?: {
+    url: string;
+    sequence?: number | string;
+    level?: number;
+    loading: boolean;
+  };
+}
+
+export type AudioTrackKind = 'main' | 'description' | 'commentary';
+
+export interface AudioTrackOption {
+  id: number;
+  label: string;
+  language: string;
+  kind: AudioTrackKind;
+}
+
+export interface PlayerError {
+  type: string;
+  details: string;
+  message: string;
+}
+
+/** Snapshot returned by the player handle's `getState()` */
+export interface PlayerState {
+  playing: boolean;
+  ended: boolean;
+  currentTime: number;
+  duration: number;
+  volume: number;
+  muted: boolean;
+  playbackRate: number;
+  /** Selected level, -1 while adaptive bitrate is on */
+  quality: number;
+  /** Rendition actually being played */
+  playingQuality: QualityLevel | null;
+  qualities: QualityLevel[];
+  isLive: boolean;
+  buffering: boolean;
+  error: PlayerError | null;
+}
+
+export interface EngineHandlers {
+  onQualities: (qualities: QualityLevel[]) => void;
+  /** The level actually being played, which differs from the selection while ABR is on */
+  onLevelSwitched: (level: number) => void;
+  onReady: () => void;
+  onFatalError: (error: PlayerError) => void;
+  onLiveChange: (isLive: boolean) => void;
+  onAudioTracks: (tracks: AudioTrackOption[], activeId: number) => void;
+  /** Chapters declared by the stream itself, such as HLS EXT-X-DATERANGE tags */
+  onChapters?: (chapters: ChapterEntry[]) => void;
+}
+
+export interface EngineOptions {
+  startTime?: number;
+  /** Enables LL-HLS partial segments and holds playback `targetLatency` seconds behind live */
+  lowLatency?: boolean;
+  targetLatency?: number;
+  /** BCP 47 tag of the audio rendition to start with, e.g. "de" */
+  preferredAudioLanguage?: string;
+  /** Seconds to buffer ahead of the playhead; keeps secondary pipelines from competing for bandwidth */
+  maxBufferLength?: number;
+}
+
+export interface PlaybackEngine {
+  readonly name: 'hls.js' | 'dash.js' | 'native';
+  /** -1 hands the choice back to adaptive bitrate */
+  setQuality: (level: number) => void;
+  /** Position playback should jump to for "Go Live", when the engine knows better than `video.seekable` */
+  getLiveEdge?: () => number | null;
+  /** Seconds behind the live edge, when the engine measures it itself */
+  getLatency?: () => number | null;
+  /** Lets the engine load the segments behind a subtitle TextTrack; `null` turns subtitles off */
+  selectSubtitleTrack?: (track: TextTrack | null) => void;
+  setAudioTrack?: (id: number) => void;
+  /** Limits automatic quality selection; `null` removes the limit. Manual choices are not affected */
+  setQualityCap?: (cap: QualityCap | null) => void;
+  getStats?: () => EngineStats;
+  /** Calls `listener` whenever something in `getStats()` changed; returns an unsubscribe function */
+  subscribeStats?: (listener: () => void) => () => void;
+  destroy: () => void;
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { parsePlayerParams } from './url-config';
+
+describe('parsePlayerParams', () => {
+  it('treats inherited object keys as unknown parameters', () => {
+    const { config, warnings } = parsePlayerParams(new URLSearchParams('url=a&toString=1&constructor=x'));
+
+    expect(config.url).toEqual(['a']);
+    expect(warnings).toEqual(['Unknown parameter "toString"', 'Unknown parameter "constructor"']);
+  });
+
+  it('keeps valid parameters next to invalid ones', () => {
+    const { config, warnings } = parsePlayerParams(new URLSearchParams('url=a&t=1m30s&speed=9'));
+
+    expect(config.t).toBe(90);
+    expect(config.speed).toBeUndefined();
+    expect(warnings).toHaveLength(1);
+  });
+});
@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import { parseTimeString } from './time';
+import type { SubtitleSource } from './types';
+
+// sub=<url>|<language>|<label>, where language and label are optional
+const parseSubtitleParam = (value: string): SubtitleSource => {
+  const [url, language, label] = value.split('|');
+  return { url, language: language || undefined, label: label || undefined };
+};
+
+const booleanParam = z
+  .enum(['true', 'false', '1', '0', ''], { errorMap: () => ({ message: 'expected true or false' }) })
+  .transform((value) => value !== 'false' && value !== '0');
+
+const timeParam = z.string().transform((value, ctx) => {
+  const seconds = parseTimeString(value);
+  if (seconds === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'expected a time such as 90, 1m30s or 1:30' });
+    return z.NEVER;
+  }
+  return seconds;
+});
+
+const numberParam = z.coerce.number({ invalid_type_error: 'expected a number' });
+const positiveNumberParam = numberParam.positive('expected a positive number');
+const positiveIntegerParam = numberParam.int('expected a whole number').positive('expected a positive number');
+const urlParam = z.string().min(1, 'expected a URL');
+
+const httpUrlParam = z
+  .string()
+  .url('expected an absolute URL')
+  .refine((value) => /^https?:\/\//i.test(value), 'expected an http(s) URL');
+
+const scalarParams = {
+  embed: booleanParam,
+  autoplay: booleanParam,
+  muted: booleanParam,
+  loop: booleanParam,
+  controls: booleanParam,
+  start: timeParam,
+  t: timeParam,
+  end: timeParam,
+  poster: urlParam,
+  thumbnails: urlParam,
+  chapters: urlParam,
+  title: z.string().trim().min(1, 'expected a title').max(200, 'expected at most 200 characters'),
+  speed: numberParam.min(0.25, 'expected a speed from 0.25 to 4').max(4, 'expected a speed from 0.25 to 4'),
+  quality: z
+    .string()
+    .regex(/^(auto|\d+p?)$/i, 'expected auto or a height such as 720p')
+    .transform((value) => (value.toLowerCase() === 'auto' ? undefined : parseInt(value, 10))),
+  lang: z.string().regex(/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i, 'expected a language code such as en or pt-BR'),
+  color: z
+    .string()
+    .regex(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i, 'expected a hex color such as ea384c')
+    .transform((value) => `#${value.replace(/^#/, '').toLowerCase()}`),
+  dataSaver: booleanParam,
+  maxHeight: positiveIntegerParam,
+  maxBitrate: positiveIntegerParam,
+  lowLatency: booleanParam,
+  targetLatency: positiveNumberParam,
+  catchUpRate: positiveNumberParam.max(1, 'expected a rate change up to 1'),
+  debug: booleanParam,
+  analytics: httpUrlParam,
+  keyboard: booleanParam,
+  persist: booleanParam,
+};
+
+/** Parameters that may repeat; each value is validated on its own */
+const listParams = {
+  url: urlParam,
+  sub: z
+    .string()
+    .transform(parseSubtitleParam)
+    .refine((source) => source.url.length > 0, 'expected <url>|<language>|<label>'),
+  // origin=https://a.example,https://*.b.example
+  origin: z
+    .string()
+    .transform((value) => value.split(',').filter(Boolean))
+    .refine(
+      (origins) => origins.every((origin) => origin === '*' || /^https?:\/\/[^/]+$/i.test(origin)),
+      'expected origins such as https://example.com'
+    ),
+};
+
+type ScalarParams = typeof scalarParams;
+type ListParams = typeof listParams;
+
+export type PlayerUrlConfig = {
+  [K in keyof ScalarParams]?: z.output<ScalarParams[K]>;
+} & {
+  url: string[];
+  sub: SubtitleSource[];
+  origin: string[];
+};
+
+// Own keys only: `in` would also match inherited names such as "toString" or "constructor"
+const isParamOf = <T extends object>(schemas: T, key: string): key is Extract<keyof T, string> =>
+  Object.prototype.hasOwnProperty.call(schemas, key);
+
+const describeValue = (key: string, value: string) => (value === '' ? key : `${key}=${value}`);
+
+/**
+ * Validates the query string one parameter at a time, so a malformed value only drops
+ * that parameter. Every problem is reported in `warnings`.
+ */
+export const parsePlayerParams = (params: URLSearchParams) => {
+  const warnings: string[] = [];
+  const config: PlayerUrlConfig = { url: [], sub: [], origin: [] };
+  const scalars = config as Record<string, unknown>;
+
+  new Set(params.keys()).forEach((key) => {
+    const values = params.getAll(key);
+
+    if (isParamOf(listParams, key)) {
+      const schema = listParams[key as keyof ListParams];
+      values.forEach((value) => {
+        const result = schema.safeParse(value);
+        if (result.success) {
+          (config[key as keyof ListParams] as unknown[]).push(...[result.data].flat());
+        } else {
+          warnings.push(`Ignoring ${describeValue(key, value)}: ${result.error.issues[0].message}`);
+        }
+      });
+      return;
+    }
+
+    if (!isParamOf(scalarParams, key)) {
+      warnings.push(`Unknown parameter "${key}"`);
+      return;
+    }
+
+    const value = values[values.length - 1];
+    if (values.length > 1) {
+      warnings.push(`"${key}" is given ${values.length} times; using ${describeValue(key, value)}`);
+    }
+    const result = scalarParams[key as keyof ScalarParams].safeParse(value);
+    if (result.success) {
+      scalars[key] = result.data;
+    } else {
+      warnings.push(`Ignoring ${describeValue(key, value)}: ${result.error.issues[0].message}`);
+    }
+  });
+
+  if (config.start !== undefined && config.t !== undefined) {
+    warnings.push('Both "start" and "t" are given; using start');
+  }
+  const start = config.start ?? config.t ?? 0;
+  if (config.end !== undefined && config.end <= start) {
+    warnings.push(`Ignoring end=${config.end}: it must be after the start time`);
+    config.end = undefined;
+  }
+
+  return { config, warnings };
+};
@@ -1,13 +1,36 @@
 
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import VideoPlayer from '@/components/VideoPlayer';
+import VideoPlayer, { type VideoPlayerHandle } from '@/components/VideoPlayer';
+import { useEmbedBridge } from '@/hooks/use-embed-bridge';
+import { toast } from '@/hooks/use-toast';
+import { parsePlayerParams } from '@/lib/player/url-config';
 
 const Index = () => {
   const [searchParams] = useSearchParams();
-  const videoUrl = searchParams.get('url');
-  const isEmbed = searchParams.get('embed') === 'true';
+  const paramsKey = searchParams.toString();
+  const { config, warnings } = useMemo(() => parsePlayerParams(new URLSearchParams(paramsKey)), [paramsKey]);
+  const [embedUrl, setEmbedUrl] = useState<string | null>(null);
+  const sources = useMemo(
+    () => (embedUrl ? [embedUrl] : config.url).map((url) => ({ url })),
+    [config.url, embedUrl]
+  );
+  const isEmbed = !!config.embed;
+  const playerRef = useRef<VideoPlayerHandle>(null);
+  const embedCallbacks = useEmbedBridge(playerRef, { enabled: isEmbed, allowedOrigins: config.origin, onLoad: setEmbedUrl });
+  const warningsKey = warnings.join('\n');
+
+  useEffect(() => {
+    if (!warningsKey) return;
+    const list = warningsKey.split('\n');
+    list.forEach((warning) => console.warn(`[player] ${warning}`));
+    toast({
+      title: list.length === 1 ? 'A URL parameter was ignored' : `${list.length} URL parameters were ignored`,
+      description: list.join('. '),
+    });
+  }, [warningsKey]);
 
-  if (!videoUrl) {
+  if (sources.length === 0) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-100">
         <div className="text-center max-w-md mx-auto p-6">
@@ -18,9 +41,42 @@ const Index = () => {
           <p className="text-sm text-gray-500">
             Example: <code className="bg-gray-200 px-2 py-1 rounded">?url=https://example.com/video.m3u8</code>
           </p>
+          <p className="text-sm text-gray-500 mt-2">
+            HLS (<code className="bg-gray-200 px-2 py-1 rounded">.m3u8</code>), DASH (<code className="bg-gray-200 px-2 py-1 rounded">.mpd</code>) and MP4/WebM files are supported.
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Fallback sources: <code className="bg-gray-200 px-2 py-1 rounded">?url=...&url=...</code>
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Low-latency live: <code className="bg-gray-200 px-2 py-1 rounded">?url=...&lowLatency=true&targetLatency=3</code>
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Subtitles: <code className="bg-gray-200 px-2 py-1 rounded">?url=...&sub=https://example.com/en.srt|en|English</code>
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Seek previews: <code className="bg-gray-200 px-2 py-1 rounded">?url=...&thumbnails=https://example.com/storyboard.vtt</code>
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Chapters (WebVTT or JSON): <code className="bg-gray-200 px-2 py-1 rounded">?url=...&chapters=https://example.com/chapters.vtt</code>
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Diagnostics charts: <code className="bg-gray-200 px-2 py-1 rounded">?url=...&debug=true</code>
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Analytics beacon: <code className="bg-gray-200 px-2 py-1 rounded">?url=...&analytics=https://example.com/collect</code>
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Start, end and looks: <code className="bg-gray-200 px-2 py-1 rounded">?url=...&t=1m30s&end=2m&autoplay&muted&title=Demo&color=ea384c</code>
+          </p>
           <p className="text-sm text-gray-500 mt-2">
             For embed view: <code className="bg-gray-200 px-2 py-1 rounded">?url=...&embed=true</code>
           </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Embed control via postMessage from: <code className="bg-gray-200 px-2 py-1 rounded">?url=...&embed=true&origin=https://host.example</code>
+          </p>
+          <p className="text-sm text-gray-500 mt-2">
+            Don't remember volume, speed or captions: <code className="bg-gray-200 px-2 py-1 rounded">?url=...&persist=false</code>
+          </p>
         </div>
       </div>
     );
@@ -29,7 +85,36 @@ const Index = () => {
   return (
     <div className={`${isEmbed ? '' : 'min-h-screen bg-gray-100'}`}>
       <div className={`${isEmbed ? '' : 'max-w-6xl mx-auto p-4 sm:p-6 lg:p-8'}`}>
-        <VideoPlayer url={videoUrl} />
+        <VideoPlayer
+          ref={playerRef}
+          sources={sources}
+          lowLatency={config.lowLatency}
+          targetLatency={config.targetLatency}
+          maxCatchUpRate={config.catchUpRate}
+          subtitles={config.sub}
+          audioLanguage={config.lang}
+          dataSaver={config.dataSaver}
+          maxHeight={config.maxHeight}
+          maxBitrate={config.maxBitrate}
+          debug={config.debug}
+          analyticsEndpoint={config.analytics}
+          keyboardShortcuts={config.keyboard}
+          persistPreferences={config.persist}
+          autoPlay={config.autoplay}
+          defaultMuted={config.muted}
+          loop={config.loop}
+          startTime={config.start ?? config.t}
+          endTime={config.end}
+          poster={config.poster}
+          title={config.title}
+          controls={config.controls}
+          defaultPlaybackRate={config.speed}
+          defaultQuality={config.quality}
+          accentColor={config.color}
+          thumbnails={config.thumbnails}
+          chapters={config.chapters}
+          {...embedCallbacks}
+        />
       </div>
     </div>
   );